@@ -0,0 +1,173 @@
+"use client"
+
+import { useState } from "react"
+import useSWRInfinite from "swr/infinite"
+import Link from "next/link"
+import { ArrowLeft, History } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { FormField } from "@/components/forms/form-field"
+import type { AuditEvent } from "@/lib/types"
+
+const PAGE_SIZE = 50
+
+const ENTITY_TYPES = [
+  { value: "all", label: "All entities" },
+  { value: "project", label: "Projects" },
+  { value: "milestone", label: "Milestones" },
+  { value: "activity_log", label: "Activity" },
+  { value: "staff_member", label: "Staff registry" },
+  { value: "api_token", label: "API tokens" },
+  { value: "github_identity", label: "GitHub identities" },
+  { value: "risk_scan_run", label: "Risk scans" },
+]
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url)
+  if (!res.ok) throw new Error("Failed to load audit events")
+  return (await res.json()).data as AuditEvent[]
+}
+
+const show = (value: unknown) => (value === null || value === undefined ? "—" : JSON.stringify(value))
+
+function actorLabel(e: AuditEvent) {
+  if (e.actor_type === "system") return "system"
+  if (e.actor_type === "api_token") return `token ${e.actor_name ?? e.actor_id}`
+  return e.actor_name ? `${e.actor_name} (${e.actor_id})` : (e.actor_id ?? "unknown")
+}
+
+export default function AuditTrailPage() {
+  const [filters, setFilters] = useState({ action: "", entityType: "all", actor: "", projectId: "" })
+
+  const query = new URLSearchParams({ limit: String(PAGE_SIZE) })
+  if (filters.action) query.set("action", filters.action.trim())
+  if (filters.entityType !== "all") query.set("entity_type", filters.entityType)
+  if (filters.actor) query.set("actor", filters.actor.trim())
+  if (filters.projectId) query.set("project_id", filters.projectId.trim())
+
+  // Pages chain by id: each page asks for events older than the last one it has
+  const { data, size, setSize, isLoading, error } = useSWRInfinite<AuditEvent[]>(
+    (index, previous) => {
+      if (previous && previous.length < PAGE_SIZE) return null
+      const params = new URLSearchParams(query)
+      if (previous?.length) params.set("before", String(previous[previous.length - 1].id))
+      return `/api/admin/audit-events?${params}`
+    },
+    fetcher,
+  )
+  const events = data?.flat() ?? []
+  const hasMore = !!data && data[data.length - 1]?.length === PAGE_SIZE
+
+  const setFilter = (field: keyof typeof filters) => (value: string) =>
+    setFilters((prev) => ({ ...prev, [field]: value }))
+
+  return (
+    <div className="min-h-screen bg-background text-white">
+      <div className="pt-20">
+        <div className="container mx-auto px-4 md:px-6 py-4">
+          <div className="max-w-5xl mx-auto space-y-6">
+            <Link href="/admin" className="inline-flex items-center text-muted-foreground hover:text-white">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Admin
+            </Link>
+
+            <Card className="bg-card/80 backdrop-blur-sm border-border/50">
+              <CardHeader>
+                <CardTitle className="text-white text-2xl font-bold flex items-center gap-2">
+                  <History className="w-6 h-6 text-[#10c0dd]" />
+                  Audit Trail
+                </CardTitle>
+                <p className="text-muted-foreground">Who changed what, with the previous and new values.</p>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <FormField
+                    id="entityType"
+                    label="Entity"
+                    type="select"
+                    value={filters.entityType}
+                    onChange={setFilter("entityType")}
+                    options={ENTITY_TYPES}
+                  />
+                  <FormField
+                    id="action"
+                    label="Action"
+                    value={filters.action}
+                    onChange={setFilter("action")}
+                    placeholder="project.update"
+                  />
+                  <FormField
+                    id="actor"
+                    label="Actor"
+                    value={filters.actor}
+                    onChange={setFilter("actor")}
+                    placeholder="Discord id or name"
+                  />
+                  <FormField
+                    id="projectId"
+                    label="Project ID"
+                    type="number"
+                    value={filters.projectId}
+                    onChange={setFilter("projectId")}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-card/80 backdrop-blur-sm border-border/50">
+              <CardContent className="pt-6">
+                {error ? (
+                  <p className="text-sm text-red-400">{error.message}</p>
+                ) : isLoading ? (
+                  <p className="text-sm text-muted-foreground">Loading audit events…</p>
+                ) : events.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No audit events match these filters.</p>
+                ) : (
+                  <div className="divide-y divide-border/50">
+                    {events.map((e) => (
+                      <div key={e.id} className="py-3">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <Badge className="bg-[#10c0dd]/20 text-[#10c0dd] text-xs">{e.action}</Badge>
+                          <span className="text-white text-sm">
+                            {e.entity_type} {e.entity_id && `#${e.entity_id}`}
+                          </span>
+                          {e.project_id != null && e.entity_type !== "project" && (
+                            <span className="text-xs text-muted-foreground">project #{e.project_id}</span>
+                          )}
+                          <span className="text-xs text-muted-foreground ml-auto">
+                            {new Date(e.created_at).toLocaleString()} · {actorLabel(e)}
+                          </span>
+                        </div>
+                        {Object.keys(e.changes).length > 0 && (
+                          <div className="mt-2 space-y-0.5">
+                            {Object.entries(e.changes).map(([field, change]) => (
+                              <p key={field} className="text-xs text-muted-foreground break-all">
+                                <span className="text-white">{field}</span>: {show(change.before)} →{" "}
+                                {show(change.after)}
+                              </p>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {hasMore && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="mt-4 border-border text-muted-foreground hover:bg-card"
+                    onClick={() => setSize(size + 1)}
+                  >
+                    Load more
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { Plus } from "lucide-react"
+import { History, KeyRound, LogOut, Plus, Trash2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import Link from "next/link"
 
@@ -14,12 +14,38 @@ export default function AdminDashboardPage() {
               <h1 className="text-3xl font-bold text-white">Admin Dashboard</h1>
               <p className="text-muted-foreground">Manage grant projects and track progress</p>
             </div>
-            <Link href="/admin/projects/new">
-              <Button className="bg-[#10c0dd] hover:bg-[#0ea5e9] text-white">
-                <Plus className="w-4 h-4 mr-2" />
-                New Project
-              </Button>
-            </Link>
+            <div className="flex items-center gap-2">
+              <Link href="/admin/projects/new">
+                <Button className="bg-[#10c0dd] hover:bg-[#0ea5e9] text-white">
+                  <Plus className="w-4 h-4 mr-2" />
+                  New Project
+                </Button>
+              </Link>
+              <Link href="/admin/trash">
+                <Button variant="outline" className="border-border text-muted-foreground hover:bg-card">
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Trash
+                </Button>
+              </Link>
+              <Link href="/admin/audit">
+                <Button variant="outline" className="border-border text-muted-foreground hover:bg-card">
+                  <History className="w-4 h-4 mr-2" />
+                  Audit Trail
+                </Button>
+              </Link>
+              <Link href="/admin/tokens">
+                <Button variant="outline" className="border-border text-muted-foreground hover:bg-card">
+                  <KeyRound className="w-4 h-4 mr-2" />
+                  API Tokens
+                </Button>
+              </Link>
+              <form action="/api/auth/logout" method="POST">
+                <Button type="submit" variant="outline" className="border-border text-muted-foreground hover:bg-card">
+                  <LogOut className="w-4 h-4 mr-2" />
+                  Sign Out
+                </Button>
+              </form>
+            </div>
           </div>
         </div>
       </div>
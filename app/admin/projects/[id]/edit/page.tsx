@@ -0,0 +1,354 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import useSWR from "swr"
+import { useRouter, useParams } from "next/navigation"
+import { ArrowLeft, Pencil, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import Link from "next/link"
+import type { Milestone, Project, ProjectStatus } from "@/lib/types"
+import { capitalizeStatus, formatDate } from "@/lib/utils"
+import { PROJECT_STATUS_TRANSITIONS } from "@/lib/status-transitions"
+import { FormField } from "@/components/forms/form-field"
+import {
+  ProjectFields,
+  projectFieldsFromProject,
+  toProjectPayload,
+  type ProjectFieldValues,
+} from "@/components/forms/project-fields"
+import {
+  repositoryFieldsFromProject,
+  toRepositoryPayload,
+  type RepositoryFieldValue,
+} from "@/components/forms/repository-fields"
+import { projectInputSchema, toFieldErrors, type FieldErrors } from "@/lib/schemas"
+
+interface ScheduleValues {
+  status: ProjectStatus
+  startDate: string
+  endDate: string
+  discordIngestOptOut: boolean
+}
+
+const dateOnly = (value?: string | null) => (value ? value.slice(0, 10) : "")
+
+function scheduleFromProject(p: Project): ScheduleValues {
+  return {
+    status: p.status ?? "active",
+    startDate: dateOnly(p.start_date),
+    endDate: dateOnly(p.end_date),
+    discordIngestOptOut: p.discord_ingest_opt_out === true,
+  }
+}
+
+function toSchedulePayload(value: ScheduleValues) {
+  return {
+    status: value.status,
+    start_date: value.startDate || null,
+    end_date: value.endDate || null,
+    discord_ingest_opt_out: value.discordIngestOptOut,
+  }
+}
+
+/** Only the fields whose payload value differs from the loaded project, for PATCH /api/projects/:id */
+function changedFields(initial: Record<string, unknown>, current: Record<string, unknown>) {
+  return Object.fromEntries(
+    Object.entries(current).filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(initial[key])),
+  )
+}
+
+const milestonesFetcher = async (url: string) => {
+  const res = await fetch(url)
+  if (!res.ok) throw new Error("Failed to load milestones")
+  return (await res.json()) as Milestone[]
+}
+
+/** The project's live milestones; deleting one moves it to /admin/trash */
+function ProjectMilestones({ projectId }: { projectId: number }) {
+  const { toast } = useToast()
+  const { data: milestones, mutate } = useSWR<Milestone[]>(`/api/projects/${projectId}/milestones`, milestonesFetcher)
+
+  const trash = async (milestone: Milestone) => {
+    if (!confirm(`Move the milestone "${milestone.title}" to the trash?`)) return
+
+    const response = await fetch(`/api/milestones/${milestone.id}`, { method: "DELETE" })
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}))
+      toast({ title: "Error", description: body.error || "Failed to delete milestone", variant: "destructive" })
+      return
+    }
+    toast({ title: "Milestone moved to the trash", description: milestone.title })
+    mutate()
+  }
+
+  return (
+    <Card className="bg-card/80 backdrop-blur-sm border-border/50">
+      <CardHeader>
+        <CardTitle className="text-white text-xl font-bold">Milestones</CardTitle>
+        <p className="text-muted-foreground">Deleted milestones can be restored from the trash.</p>
+      </CardHeader>
+      <CardContent>
+        {!milestones ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : milestones.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This project has no milestones.</p>
+        ) : (
+          <div className="divide-y divide-border/50">
+            {milestones.map((m) => (
+              <div key={m.id} className="py-3 flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <span className="text-white text-sm font-medium">{m.title}</span>
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    {capitalizeStatus(m.status)} · due {formatDate(m.due_date)}
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="border-red-500/50 text-red-400 hover:bg-red-500/10 shrink-0"
+                  onClick={() => trash(m)}
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Move to trash
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function EditProjectPage() {
+  const router = useRouter()
+  const params = useParams()
+  const { toast } = useToast()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [project, setProject] = useState<Project | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const [formData, setFormData] = useState<ProjectFieldValues | null>(null)
+  const [repositories, setRepositories] = useState<RepositoryFieldValue[]>([])
+  const [schedule, setSchedule] = useState<ScheduleValues | null>(null)
+  const [errors, setErrors] = useState<FieldErrors>({})
+
+  useEffect(() => {
+    const fetchProject = async () => {
+      try {
+        const response = await fetch(`/api/projects/${params.id}`)
+        if (!response.ok) {
+          throw new Error("Failed to fetch project")
+        }
+        const projectData: Project = await response.json()
+        setProject(projectData)
+        setFormData(projectFieldsFromProject(projectData))
+        setRepositories(repositoryFieldsFromProject(projectData.repositories))
+        setSchedule(scheduleFromProject(projectData))
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: "Failed to load project details.",
+          variant: "destructive",
+        })
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    if (params.id) {
+      fetchProject()
+    }
+  }, [params.id, toast])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!project || !formData || !schedule) return
+
+    const initialRepositories = toRepositoryPayload(repositoryFieldsFromProject(project.repositories))
+    const changes = changedFields(
+      {
+        ...toProjectPayload(projectFieldsFromProject(project)),
+        ...toSchedulePayload(scheduleFromProject(project)),
+        repositories: initialRepositories,
+      },
+      {
+        ...toProjectPayload(formData),
+        ...toSchedulePayload(schedule),
+        repositories: toRepositoryPayload(repositories),
+      },
+    )
+    if (Object.keys(changes).length === 0) {
+      toast({ title: "No changes", description: "Nothing to save." })
+      return
+    }
+    const parsed = projectInputSchema.safeParse(changes)
+    if (!parsed.success) {
+      setErrors(toFieldErrors(parsed.error))
+      toast({ title: "Check the form", description: "Some fields are invalid.", variant: "destructive" })
+      return
+    }
+    setErrors({})
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(`/api/projects/${project.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(changes),
+      })
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        if (body?.fields) setErrors(body.fields)
+        throw new Error(body?.error || "Failed to update project")
+      }
+
+      toast({
+        title: "Project Updated",
+        description: `${formData.title} has been saved.`,
+      })
+
+      router.push(`/individual-project?id=${project.id}`)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update project. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background text-white flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#10c0dd] mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading project details...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!project || !formData || !schedule) {
+    return (
+      <div className="min-h-screen bg-background text-white flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-muted-foreground">Project not found</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-white">
+      <div className="pt-20">
+        <div className="container mx-auto px-4 md:px-6 py-4">
+          {/* Header */}
+          <div className="flex items-center gap-4 mb-6">
+            <Link href="/admin" className="flex items-center gap-2 text-white hover:text-[#10c0dd] transition-colors">
+              <ArrowLeft className="w-4 h-4" />
+              <span>Back to Admin</span>
+            </Link>
+          </div>
+
+          <div className="max-w-4xl mx-auto space-y-6">
+            <Card className="bg-card/80 backdrop-blur-sm border-border/50">
+              <CardHeader>
+                <CardTitle className="text-white text-2xl font-bold flex items-center gap-2">
+                  <Pencil className="w-6 h-6 text-[#10c0dd]" />
+                  Edit Project
+                </CardTitle>
+                <p className="text-muted-foreground">Only the fields you change are saved.</p>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleSubmit} className="space-y-6">
+                  <ProjectFields
+                    value={formData}
+                    onChange={setFormData}
+                    repositories={repositories}
+                    onRepositoriesChange={setRepositories}
+                    errors={errors}
+                  />
+
+                  <div className="space-y-4">
+                    <h3 className="text-white font-medium text-lg">Status & Schedule</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <FormField
+                        id="status"
+                        label="Status"
+                        type="select"
+                        value={schedule.status}
+                        onChange={(next) => setSchedule({ ...schedule, status: next as ProjectStatus })}
+                        error={errors.status?.[0]}
+                        options={[project.status, ...PROJECT_STATUS_TRANSITIONS[project.status]].map((status) => ({
+                          value: status,
+                          label: capitalizeStatus(status),
+                        }))}
+                        helpText="Only the statuses this project can move to are offered"
+                      />
+                      <FormField
+                        id="startDate"
+                        label="Start Date"
+                        type="date"
+                        value={schedule.startDate}
+                        onChange={(next) => setSchedule({ ...schedule, startDate: next })}
+                        error={errors.start_date?.[0]}
+                      />
+                      <FormField
+                        id="endDate"
+                        label="End Date"
+                        type="date"
+                        value={schedule.endDate}
+                        onChange={(next) => setSchedule({ ...schedule, endDate: next })}
+                        error={errors.end_date?.[0]}
+                        helpText="Leave empty to derive it from the duration"
+                      />
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <input
+                        type="checkbox"
+                        checked={schedule.discordIngestOptOut}
+                        onChange={(e) => setSchedule({ ...schedule, discordIngestOptOut: e.target.checked })}
+                      />
+                      Don&apos;t record messages from the linked Discord channel as project activity
+                    </label>
+                  </div>
+
+                  {/* Submit Button */}
+                  <div className="flex gap-4 pt-6">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => router.back()}
+                      className="border-border text-muted-foreground hover:bg-card"
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      type="submit"
+                      disabled={isSubmitting}
+                      className="bg-[#10c0dd] hover:bg-[#0ea5e9] text-white"
+                    >
+                      {isSubmitting ? "Saving..." : "Save Changes"}
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+
+            <ProjectMilestones projectId={project.id} />
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -11,6 +11,9 @@ import { useToast } from "@/hooks/use-toast"
 import Link from "next/link"
 import type { Project } from "@/lib/db"
 import { FormField } from "@/components/forms/form-field"
+import { milestoneCreateSchema, toFieldErrors, type FieldErrors } from "@/lib/schemas"
+import { MILESTONE_STATUSES } from "@/lib/constants"
+import { capitalizeStatus } from "@/lib/utils"
 
 interface MilestoneData {
   title: string
@@ -20,6 +23,8 @@ interface MilestoneData {
   status: string
 }
 
+const STATUS_OPTIONS = MILESTONE_STATUSES.map((status) => ({ value: status, label: capitalizeStatus(status) }))
+
 export default function NewMilestonePage() {
   const router = useRouter()
   const params = useParams()
@@ -34,9 +39,11 @@ export default function NewMilestonePage() {
       description: "",
       deadline: "",
       budget: "",
-      status: "Active",
+      status: "in-progress",
     },
   ])
+  // Validation errors per milestone, keyed by API field name
+  const [errors, setErrors] = useState<FieldErrors[]>([])
 
   useEffect(() => {
     const fetchProject = async () => {
@@ -76,7 +83,7 @@ export default function NewMilestonePage() {
         description: "",
         deadline: "",
         budget: "",
-        status: "Active",
+        status: "in-progress",
       },
     ])
   }
@@ -84,53 +91,65 @@ export default function NewMilestonePage() {
   const removeMilestone = (index: number) => {
     if (milestones.length > 1) {
       setMilestones((prev) => prev.filter((_, i) => i !== index))
+      setErrors((prev) => prev.filter((_, i) => i !== index))
     }
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    setIsSubmitting(true)
-
-    try {
-      const validMilestones = milestones.filter(
-        (milestone) => milestone.title.trim() && milestone.description.trim() && milestone.deadline && milestone.budget,
-      )
 
-      if (validMilestones.length === 0) {
-        throw new Error("At least one complete milestone is required")
-      }
+    // Indexes of the milestones with every required field filled in; blank rows are skipped
+    const complete = milestones.flatMap((milestone, index) =>
+      milestone.title.trim() && milestone.description.trim() && milestone.deadline && milestone.budget ? [index] : [],
+    )
+    if (complete.length === 0) {
+      toast({ title: "Error", description: "At least one complete milestone is required", variant: "destructive" })
+      return
+    }
 
-      const createdMilestones = []
-      for (let i = 0; i < validMilestones.length; i++) {
-        const milestone = validMilestones[i]
+    const payloads = complete.map((index, i) => ({
+      project_id: Number.parseInt(params.id as string),
+      title: milestones[index]!.title,
+      description: milestones[index]!.description,
+      due_date: milestones[index]!.deadline,
+      status: milestones[index]!.status,
+      budget: milestones[index]!.budget,
+      ordinal: i + 1,
+    }))
+    const nextErrors: FieldErrors[] = milestones.map(() => ({}))
+    payloads.forEach((payload, i) => {
+      const parsed = milestoneCreateSchema.safeParse(payload)
+      if (!parsed.success) nextErrors[complete[i]!] = toFieldErrors(parsed.error)
+    })
+    setErrors(nextErrors)
+    if (nextErrors.some((fieldErrors) => Object.keys(fieldErrors).length > 0)) {
+      toast({ title: "Check the form", description: "Some milestones have invalid fields.", variant: "destructive" })
+      return
+    }
 
+    setIsSubmitting(true)
+    try {
+      for (let i = 0; i < payloads.length; i++) {
         const response = await fetch("/api/milestones", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
           },
-          body: JSON.stringify({
-            project_id: Number.parseInt(params.id as string),
-            title: milestone?.title,
-            description: milestone?.description,
-            due_date: milestone?.deadline,
-            status: milestone?.status.toLowerCase(),
-            budget: milestone?.budget,
-            ordinal: i + 1,
-          }),
+          body: JSON.stringify(payloads[i]),
         })
 
         if (!response.ok) {
-          throw new Error(`Failed to create milestone: ${milestone?.title}`)
+          const body = await response.json().catch(() => null)
+          if (body?.fields) {
+            setErrors((prev) => prev.map((fieldErrors, index) => (index === complete[i] ? body.fields : fieldErrors)))
+          }
+          throw new Error(`Failed to create milestone: ${payloads[i]!.title}`)
         }
-
-        const created = await response.json()
-        createdMilestones.push(created)
       }
 
       toast({
         title: "Milestones Created",
-        description: `Successfully created ${validMilestones.length} milestone(s).`,
+        description: `Successfully created ${payloads.length} milestone(s).`,
       })
 
       router.push("/admin")
@@ -230,6 +249,7 @@ export default function NewMilestonePage() {
                           label="Milestone Title"
                           value={milestone.title}
                           onChange={(value) => handleInputChange(index, "title", value)}
+                          error={errors[index]?.title?.[0]}
                           placeholder="e.g., Project Planning Phase"
                           required
                         />
@@ -240,6 +260,7 @@ export default function NewMilestonePage() {
                           type="number"
                           value={milestone.budget}
                           onChange={(value) => handleInputChange(index, "budget", value)}
+                          error={errors[index]?.budget?.[0]}
                           placeholder="8333"
                           required
                         />
@@ -251,6 +272,7 @@ export default function NewMilestonePage() {
                         type="textarea"
                         value={milestone.description}
                         onChange={(value) => handleInputChange(index, "description", value)}
+                        error={errors[index]?.description?.[0]}
                         placeholder="Describe what needs to be accomplished in this milestone..."
                         required
                       />
@@ -262,6 +284,7 @@ export default function NewMilestonePage() {
                           type="date"
                           value={milestone.deadline}
                           onChange={(value) => handleInputChange(index, "deadline", value)}
+                          error={errors[index]?.due_date?.[0]}
                           icon={<Calendar className="w-4 h-4" />}
                           required
                         />
@@ -272,14 +295,9 @@ export default function NewMilestonePage() {
                           type="select"
                           value={milestone.status}
                           onChange={(value) => handleInputChange(index, "status", value)}
+                          error={errors[index]?.status?.[0]}
                           placeholder="Select status"
-                          options={[
-                            { value: "Active", label: "Active" },
-                            { value: "At Risk", label: "At Risk" },
-                            { value: "Overdue", label: "Overdue" },
-                            { value: "Completed", label: "Completed" },
-                            { value: "Not Started", label: "Not Started" },
-                          ]}
+                          options={STATUS_OPTIONS}
                           required
                         />
                       </div>
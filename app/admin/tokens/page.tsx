@@ -0,0 +1,219 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import useSWR from "swr"
+import Link from "next/link"
+import { ArrowLeft, KeyRound } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { FormField } from "@/components/forms/form-field"
+import { useToast } from "@/hooks/use-toast"
+import { formatDate } from "@/lib/utils"
+import type { ApiToken, ApiTokenScope } from "@/lib/types"
+
+const SCOPES: { value: ApiTokenScope; label: string }[] = [
+  { value: "activity:write", label: "activity:write — progress updates, activity logs, channel ingestion" },
+  { value: "milestones:complete", label: "milestones:complete — complete milestones from Discord" },
+  { value: "scan:run", label: "scan:run — risk scans and GitHub history imports" },
+]
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url)
+  if (!res.ok) throw new Error("Failed to load tokens")
+  return (await res.json()).data as ApiToken[]
+}
+
+function tokenState(t: ApiToken) {
+  if (t.revoked_at) return { label: "Revoked", className: "bg-red-500/20 text-red-400" }
+  if (t.expires_at && new Date(t.expires_at).getTime() <= Date.now()) {
+    return { label: "Expired", className: "bg-yellow-500/20 text-yellow-400" }
+  }
+  return { label: "Active", className: "bg-green-500/20 text-green-400" }
+}
+
+export default function ApiTokensPage() {
+  const { toast } = useToast()
+  const { data: tokens, isLoading, mutate } = useSWR<ApiToken[]>("/api/admin/tokens", fetcher)
+  const [name, setName] = useState("")
+  const [scopes, setScopes] = useState<ApiTokenScope[]>([])
+  const [expiresAt, setExpiresAt] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [issuedToken, setIssuedToken] = useState<string | null>(null)
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+
+    try {
+      const response = await fetch("/api/admin/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, scopes, expires_at: expiresAt || null }),
+      })
+      const body = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(body.error || "Failed to create token")
+
+      setIssuedToken(body.data.token)
+      setName("")
+      setScopes([])
+      setExpiresAt("")
+      mutate()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create token",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!confirm(`Revoke "${token.name}"? Integrations using it stop working immediately.`)) return
+
+    const response = await fetch(`/api/admin/tokens/${token.id}`, { method: "DELETE" })
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}))
+      toast({ title: "Error", description: body.error || "Failed to revoke token", variant: "destructive" })
+      return
+    }
+    toast({ title: "Token revoked", description: token.name })
+    mutate()
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-white">
+      <div className="pt-20">
+        <div className="container mx-auto px-4 md:px-6 py-4">
+          <div className="max-w-4xl mx-auto space-y-6">
+            <Link href="/admin" className="inline-flex items-center text-muted-foreground hover:text-white">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Admin
+            </Link>
+
+            <Card className="bg-card/80 backdrop-blur-sm border-border/50">
+              <CardHeader>
+                <CardTitle className="text-white text-2xl font-bold flex items-center gap-2">
+                  <KeyRound className="w-6 h-6 text-[#10c0dd]" />
+                  API Tokens
+                </CardTitle>
+                <p className="text-muted-foreground">
+                  Give each integration its own token with only the scopes it needs.
+                </p>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <FormField
+                    id="name"
+                    label="Name"
+                    value={name}
+                    onChange={setName}
+                    placeholder="Discord bot"
+                    required
+                  />
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium text-white">Scopes</p>
+                    {SCOPES.map((scope) => (
+                      <label key={scope.value} className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <input
+                          type="checkbox"
+                          checked={scopes.includes(scope.value)}
+                          onChange={() => toggleScope(scope.value)}
+                        />
+                        {scope.label}
+                      </label>
+                    ))}
+                  </div>
+                  <FormField
+                    id="expiresAt"
+                    label="Expires"
+                    type="date"
+                    value={expiresAt}
+                    onChange={setExpiresAt}
+                    helpText="Leave empty for a token that does not expire"
+                  />
+                  <Button
+                    type="submit"
+                    disabled={isSubmitting || scopes.length === 0}
+                    className="bg-[#10c0dd] hover:bg-[#0ea5e9] text-white"
+                  >
+                    {isSubmitting ? "Creating..." : "Create Token"}
+                  </Button>
+                </form>
+
+                {issuedToken && (
+                  <div className="mt-6 rounded-md border border-[#10c0dd]/50 bg-[#10c0dd]/10 p-4 space-y-2">
+                    <p className="text-sm text-white">Copy this token now. It will not be shown again.</p>
+                    <code className="block break-all text-sm text-[#10c0dd]">{issuedToken}</code>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="border-border text-muted-foreground hover:bg-card"
+                      onClick={() => setIssuedToken(null)}
+                    >
+                      Done
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="bg-card/80 backdrop-blur-sm border-border/50">
+              <CardHeader>
+                <CardTitle className="text-white text-lg">Issued Tokens</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {isLoading || !tokens ? (
+                  <p className="text-sm text-muted-foreground">Loading tokens…</p>
+                ) : tokens.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No tokens yet.</p>
+                ) : (
+                  <div className="divide-y divide-border/50">
+                    {tokens.map((t) => {
+                      const state = tokenState(t)
+                      return (
+                        <div key={t.id} className="py-3 flex items-start justify-between gap-4">
+                          <div className="min-w-0">
+                            <div className="flex items-center gap-2 flex-wrap">
+                              <span className="text-white text-sm font-medium">{t.name}</span>
+                              <code className="text-xs text-muted-foreground">{t.token_prefix}…</code>
+                              <Badge className={`${state.className} text-xs`}>{state.label}</Badge>
+                            </div>
+                            <p className="text-xs text-muted-foreground mt-0.5">{t.scopes.join(" · ")}</p>
+                            <p className="text-xs text-muted-foreground mt-0.5">
+                              Created {formatDate(t.created_at)}
+                              {t.expires_at && ` · expires ${formatDate(t.expires_at)}`}
+                              {` · last used ${t.last_used_at ? formatDate(t.last_used_at) : "never"}`}
+                            </p>
+                          </div>
+                          {!t.revoked_at && (
+                            <Button
+                              type="button"
+                              variant="outline"
+                              className="border-red-500/50 text-red-400 hover:bg-red-500/10 shrink-0"
+                              onClick={() => handleRevoke(t)}
+                            >
+                              Revoke
+                            </Button>
+                          )}
+                        </div>
+                      )
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
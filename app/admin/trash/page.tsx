@@ -0,0 +1,194 @@
+"use client"
+
+import useSWR from "swr"
+import Link from "next/link"
+import { ArrowLeft, RotateCcw, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { formatDate } from "@/lib/utils"
+import type { TrashedMilestone, TrashedProject } from "@/lib/types"
+
+const fetcher = async (url: string) => {
+  const res = await fetch(url)
+  if (!res.ok) throw new Error("Failed to load the trash")
+  return (await res.json()).data
+}
+
+export default function TrashPage() {
+  const { toast } = useToast()
+  const { data: projects, isLoading, mutate } = useSWR<TrashedProject[]>("/api/admin/trash", fetcher)
+  const {
+    data: milestones,
+    isLoading: milestonesLoading,
+    mutate: mutateMilestones,
+  } = useSWR<TrashedMilestone[]>("/api/admin/trash/milestones", fetcher)
+
+  const act = async (project: TrashedProject, action: "restore" | "purge") => {
+    if (
+      action === "purge" &&
+      !confirm(`Permanently delete "${project.name}" with its milestones and activity? This cannot be undone.`)
+    ) {
+      return
+    }
+
+    const response = await fetch(
+      action === "restore" ? `/api/admin/trash/${project.id}/restore` : `/api/admin/trash/${project.id}`,
+      { method: action === "restore" ? "POST" : "DELETE" },
+    )
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}))
+      toast({ title: "Error", description: body.error || `Failed to ${action} project`, variant: "destructive" })
+      return
+    }
+    toast({ title: action === "restore" ? "Project restored" : "Project purged", description: project.name })
+    mutate()
+    // A purged project takes its trashed milestones with it
+    mutateMilestones()
+  }
+
+  const actOnMilestone = async (milestone: TrashedMilestone, action: "restore" | "purge") => {
+    if (action === "purge" && !confirm(`Permanently delete the milestone "${milestone.title}"? This cannot be undone.`)) {
+      return
+    }
+
+    const response = await fetch(
+      action === "restore"
+        ? `/api/admin/trash/milestones/${milestone.id}/restore`
+        : `/api/admin/trash/milestones/${milestone.id}`,
+      { method: action === "restore" ? "POST" : "DELETE" },
+    )
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}))
+      toast({ title: "Error", description: body.error || `Failed to ${action} milestone`, variant: "destructive" })
+      return
+    }
+    toast({ title: action === "restore" ? "Milestone restored" : "Milestone purged", description: milestone.title })
+    mutateMilestones()
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-white">
+      <div className="pt-20">
+        <div className="container mx-auto px-4 md:px-6 py-4">
+          <div className="max-w-4xl mx-auto space-y-6">
+            <Link href="/admin" className="inline-flex items-center text-muted-foreground hover:text-white">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Admin
+            </Link>
+
+            <Card className="bg-card/80 backdrop-blur-sm border-border/50">
+              <CardHeader>
+                <CardTitle className="text-white text-2xl font-bold flex items-center gap-2">
+                  <Trash2 className="w-6 h-6 text-[#10c0dd]" />
+                  Trash
+                </CardTitle>
+                <p className="text-muted-foreground">
+                  Deleted projects keep their milestones and activity until they are purged.
+                </p>
+              </CardHeader>
+              <CardContent>
+                {isLoading || !projects ? (
+                  <p className="text-sm text-muted-foreground">Loading…</p>
+                ) : projects.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">The trash is empty.</p>
+                ) : (
+                  <div className="divide-y divide-border/50">
+                    {projects.map((p) => (
+                      <div key={p.id} className="py-3 flex items-start justify-between gap-4">
+                        <div className="min-w-0">
+                          <span className="text-white text-sm font-medium">{p.name}</span>
+                          <p className="text-xs text-muted-foreground mt-0.5">
+                            {p.milestone_count} milestones · {p.activity_count} activity entries
+                          </p>
+                          <p className="text-xs text-muted-foreground mt-0.5">
+                            Deleted {formatDate(p.deleted_at)}
+                            {p.deleted_by && ` by ${p.deleted_by}`} · purged on {formatDate(p.purge_after)}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <Button
+                            type="button"
+                            variant="outline"
+                            className="border-border text-muted-foreground hover:bg-card"
+                            onClick={() => act(p, "restore")}
+                          >
+                            <RotateCcw className="w-4 h-4 mr-2" />
+                            Restore
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            className="border-red-500/50 text-red-400 hover:bg-red-500/10"
+                            onClick={() => act(p, "purge")}
+                          >
+                            Purge
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="bg-card/80 backdrop-blur-sm border-border/50">
+              <CardHeader>
+                <CardTitle className="text-white text-xl font-bold">Milestones</CardTitle>
+                <p className="text-muted-foreground">
+                  Milestones deleted on their own. One whose project is also in the trash comes back with the project.
+                </p>
+              </CardHeader>
+              <CardContent>
+                {milestonesLoading || !milestones ? (
+                  <p className="text-sm text-muted-foreground">Loading…</p>
+                ) : milestones.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No deleted milestones.</p>
+                ) : (
+                  <div className="divide-y divide-border/50">
+                    {milestones.map((m) => (
+                      <div key={m.id} className="py-3 flex items-start justify-between gap-4">
+                        <div className="min-w-0">
+                          <span className="text-white text-sm font-medium">{m.title}</span>
+                          <p className="text-xs text-muted-foreground mt-0.5">
+                            {m.project_name}
+                            {m.project_deleted && " (in the trash)"}
+                          </p>
+                          <p className="text-xs text-muted-foreground mt-0.5">
+                            Deleted {formatDate(m.deleted_at)}
+                            {m.deleted_by && ` by ${m.deleted_by}`} · purged on {formatDate(m.purge_after)}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <Button
+                            type="button"
+                            variant="outline"
+                            className="border-border text-muted-foreground hover:bg-card"
+                            disabled={m.project_deleted}
+                            title={m.project_deleted ? "Restore the project first" : undefined}
+                            onClick={() => actOnMilestone(m, "restore")}
+                          >
+                            <RotateCcw className="w-4 h-4 mr-2" />
+                            Restore
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            className="border-red-500/50 text-red-400 hover:bg-red-500/10"
+                            onClick={() => actOnMilestone(m, "purge")}
+                          >
+                            Purge
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,11 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { sql } from "@/lib/db"
 import type { ActivityLog } from "@/lib/db"
-import { config } from "@/configs/config"
+import { insertActivityLog, isActivitySource, listActivityLogs, touchProjectActivity } from "@/lib/activity-logs"
+import { authorizeProjectAction } from "@/lib/staff"
+import { ApiError } from "@/lib/api-helpers"
+import { requireApiToken } from "@/lib/api-tokens"
+import { recordAuditEvent, tokenActor } from "@/lib/audit"
 
 export async function GET(request: NextRequest) {
   try {
@@ -9,22 +13,10 @@ export async function GET(request: NextRequest) {
     const projectId = searchParams.get("project_id")
     const limit = searchParams.get("limit") || "50"
 
-    let activityLogs: ActivityLog[]
-
-    if (projectId) {
-      activityLogs = (await sql`
-        SELECT * FROM activity_logs 
-        WHERE project_id = ${Number.parseInt(projectId)}
-        ORDER BY timestamp DESC
-        LIMIT ${Number.parseInt(limit)}
-      `) as ActivityLog[]
-    } else {
-      activityLogs = (await sql`
-        SELECT * FROM activity_logs 
-        ORDER BY timestamp DESC
-        LIMIT ${Number.parseInt(limit)}
-      `) as ActivityLog[]
-    }
+    const activityLogs: ActivityLog[] = await listActivityLogs({
+      projectId: projectId ? Number.parseInt(projectId) : null,
+      limit: Number.parseInt(limit),
+    })
 
     return NextResponse.json(activityLogs)
   } catch (error) {
@@ -37,12 +29,7 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const auth = request.headers.get("authorization") || ""
-    const token = auth.startsWith("Bearer ") ? auth.slice("Bearer ".length) : ""
-
-    if (!config.serviceBotToken || token !== config.serviceBotToken) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-    }
+    const apiToken = await requireApiToken(request, "activity:write")
 
     const body = await request.json()
     const { project_id, activity_type, source, title, description, url, author, metadata, callerDiscordId } = body
@@ -50,11 +37,17 @@ export async function POST(request: NextRequest) {
     if (!project_id) {
       return NextResponse.json({ error: "project_id is required" }, { status: 400 })
     }
+    if (!activity_type) {
+      return NextResponse.json({ error: "activity_type is required" }, { status: 400 })
+    }
+    if (!isActivitySource(source)) {
+      return NextResponse.json({ error: "source must be one of github, discord, manual" }, { status: 400 })
+    }
 
     const [p] = await sql /*sql*/`
       SELECT id, assignee_discord_id
       FROM projects
-      WHERE id=${project_id}
+      WHERE id=${project_id} AND deleted_at IS NULL
       LIMIT 1
     `
 
@@ -62,23 +55,41 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Project not found" }, { status: 404 })
     }
 
-    const isAdmin = callerDiscordId
-    if (!isAdmin) {
-      if (!callerDiscordId || callerDiscordId !== p.assignee_discord_id) {
-        return NextResponse.json({ error: "Forbidden: project not assigned to you" }, { status: 403 })
-      }
+    const decision = await authorizeProjectAction("activity:write", callerDiscordId, {
+      id: p.id,
+      assignee_discord_id: p.assignee_discord_id,
+    })
+    if (!decision.allowed) {
+      return NextResponse.json({ error: "Forbidden: project not assigned to you" }, { status: 403 })
     }
 
-    const [activityLog] = (await sql /*sql*/`
-      INSERT INTO activity_logs (project_id, activity_type, source, title, description, url, author, metadata)
-      VALUES (${project_id}, ${activity_type}, ${source}, ${title}, ${description}, ${url}, ${author}, ${metadata})
-      RETURNING *
-    `) as ActivityLog[]
+    const activityLog = await insertActivityLog({
+      projectId: p.id,
+      activityType: activity_type,
+      source,
+      title,
+      description,
+      url,
+      author,
+      metadata: metadata && typeof metadata === "object" ? metadata : null,
+    })
 
-    await sql /*sql*/`UPDATE projects SET last_activity_at = NOW(), updated_at = NOW() WHERE id=${project_id}`
+    await touchProjectActivity(p.id)
+    await recordAuditEvent({
+      actor: tokenActor(apiToken, callerDiscordId),
+      action: "activity.create",
+      entityType: "activity_log",
+      entityId: activityLog.id,
+      projectId: p.id,
+      after: activityLog,
+      metadata: { token: apiToken.name, granted_as: decision.grantedAs },
+    })
 
     return NextResponse.json(activityLog, { status: 201 })
   } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
     if (process.env.NODE_ENV === "development") {
       console.error("[activity-logs][POST] error:", error)
     }
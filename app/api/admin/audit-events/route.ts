@@ -0,0 +1,38 @@
+import { type NextRequest } from "next/server"
+import { handleApiError, successResponse, ApiError } from "@/lib/api-helpers"
+import { requireRole } from "@/lib/auth"
+import { listAuditEvents } from "@/lib/audit"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * GET /api/admin/audit-events → newest first
+ * Query: action, entity_type, entity_id, actor (discord id, token id or name), project_id, before (event id), limit
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireRole("admin")
+    const { searchParams } = new URL(request.url)
+
+    const int = (name: string) => {
+      const value = searchParams.get(name)
+      if (!value) return null
+      const parsed = Number.parseInt(value)
+      if (!Number.isFinite(parsed)) throw new ApiError(400, `Invalid ${name}`)
+      return parsed
+    }
+
+    const events = await listAuditEvents({
+      action: searchParams.get("action") || null,
+      entityType: searchParams.get("entity_type") || null,
+      entityId: searchParams.get("entity_id") || null,
+      actor: searchParams.get("actor") || null,
+      projectId: int("project_id"),
+      beforeId: int("before"),
+      limit: int("limit") ?? 50,
+    })
+    return successResponse(events)
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
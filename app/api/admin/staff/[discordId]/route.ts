@@ -0,0 +1,26 @@
+import { type NextRequest } from "next/server"
+import { handleApiError, successResponse, ApiError } from "@/lib/api-helpers"
+import { requireRole } from "@/lib/auth"
+import { recordAuditEvent, userActor } from "@/lib/audit"
+import { removeStaffMember } from "@/lib/staff"
+
+// DELETE /api/admin/staff/:discordId → remove a registry entry (guild roles still apply)
+export async function DELETE(_request: NextRequest, { params }: { params: { discordId: string } }) {
+  try {
+    const user = await requireRole("admin")
+    const removed = await removeStaffMember(params.discordId)
+    if (!removed) {
+      throw new ApiError(404, "Not in the staff registry")
+    }
+    await recordAuditEvent({
+      actor: userActor(user),
+      action: "staff.delete",
+      entityType: "staff_member",
+      entityId: params.discordId,
+      before: removed,
+    })
+    return successResponse({ discord_id: params.discordId })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,46 @@
+import { type NextRequest } from "next/server"
+import { handleApiError, successResponse, ApiError } from "@/lib/api-helpers"
+import { requireRole } from "@/lib/auth"
+import { recordAuditEvent, userActor } from "@/lib/audit"
+import { getStaffMember, listStaffMembers, upsertStaffMember } from "@/lib/staff"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/admin/staff → admins and reviewers in the registry
+export async function GET() {
+  try {
+    await requireRole("admin")
+    return successResponse(await listStaffMembers())
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// POST /api/admin/staff { discord_id, role: "admin" | "reviewer", note? } → add or change a registry entry
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireRole("admin")
+    const { discord_id, role, note } = await request.json()
+
+    if (typeof discord_id !== "string" || !/^\d{15,25}$/.test(discord_id)) {
+      throw new ApiError(400, "discord_id must be a Discord user id")
+    }
+    if (role !== "admin" && role !== "reviewer") {
+      throw new ApiError(400, "role must be 'admin' or 'reviewer'")
+    }
+
+    const before = await getStaffMember(discord_id)
+    const member = await upsertStaffMember(discord_id, role, note ? String(note).slice(0, 255) : null, user.discord_id)
+    await recordAuditEvent({
+      actor: userActor(user),
+      action: before ? "staff.update" : "staff.create",
+      entityType: "staff_member",
+      entityId: discord_id,
+      before,
+      after: member,
+    })
+    return successResponse(member, 201)
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,27 @@
+import { type NextRequest } from "next/server"
+import { handleApiError, successResponse, ApiError } from "@/lib/api-helpers"
+import { requireRole } from "@/lib/auth"
+import { revokeApiToken } from "@/lib/api-tokens"
+import { recordAuditEvent, userActor } from "@/lib/audit"
+
+// DELETE /api/admin/tokens/:id → revoke a token; it stops working immediately and stays listed
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireRole("admin")
+    const id = Number.parseInt(params.id)
+    if (!Number.isFinite(id)) throw new ApiError(400, "Invalid token id")
+
+    const token = await revokeApiToken(id)
+    if (!token) throw new ApiError(404, "Token not found")
+    await recordAuditEvent({
+      actor: userActor(user),
+      action: "api_token.revoke",
+      entityType: "api_token",
+      entityId: token.id,
+      after: { revoked_at: token.revoked_at },
+    })
+    return successResponse(token)
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,54 @@
+import { type NextRequest } from "next/server"
+import { handleApiError, successResponse, ApiError, validateDate } from "@/lib/api-helpers"
+import { requireRole } from "@/lib/auth"
+import { recordAuditEvent, userActor } from "@/lib/audit"
+import { API_TOKEN_SCOPES, createApiToken, isApiTokenScope, listApiTokens } from "@/lib/api-tokens"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/admin/tokens → issued API tokens (never the secrets)
+export async function GET() {
+  try {
+    await requireRole("admin")
+    return successResponse(await listApiTokens())
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// POST /api/admin/tokens { name, scopes, expires_at? } → { token, record }; the token is only returned here
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireRole("admin")
+    const { name, scopes, expires_at } = await request.json()
+
+    const trimmedName = typeof name === "string" ? name.trim() : ""
+    if (!trimmedName || trimmedName.length > 100) {
+      throw new ApiError(400, "name is required (at most 100 characters)")
+    }
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiTokenScope)) {
+      throw new ApiError(400, `scopes must be a non-empty list of ${API_TOKEN_SCOPES.join(", ")}`)
+    }
+    validateDate(expires_at, "expires_at")
+    if (expires_at && new Date(expires_at).getTime() <= Date.now()) {
+      throw new ApiError(400, "expires_at must be in the future")
+    }
+
+    const issued = await createApiToken({
+      name: trimmedName,
+      scopes: Array.from(new Set(scopes)),
+      expiresAt: expires_at ? new Date(expires_at).toISOString() : null,
+      createdBy: user.discord_id,
+    })
+    await recordAuditEvent({
+      actor: userActor(user),
+      action: "api_token.create",
+      entityType: "api_token",
+      entityId: issued.record.id,
+      after: issued.record,
+    })
+    return successResponse(issued, 201)
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
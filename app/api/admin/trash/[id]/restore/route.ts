@@ -0,0 +1,29 @@
+import { type NextRequest } from "next/server"
+import { handleApiError, successResponse, ApiError } from "@/lib/api-helpers"
+import { requireRole } from "@/lib/auth"
+import { recordAuditEvent, userActor } from "@/lib/audit"
+import { restoreProject } from "@/lib/project-trash"
+
+// POST /api/admin/trash/:id/restore → bring a trashed project back
+export async function POST(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireRole("admin")
+    const projectId = Number.parseInt(params.id)
+    if (!Number.isFinite(projectId)) throw new ApiError(400, "Invalid project id")
+
+    const restored = await restoreProject(projectId)
+    if (!restored) throw new ApiError(404, "Project is not in the trash")
+    await recordAuditEvent({
+      actor: userActor(user),
+      action: "project.restore",
+      entityType: "project",
+      entityId: projectId,
+      projectId,
+      before: restored.trashed,
+      after: { deleted_at: null, deleted_by: null },
+    })
+    return successResponse(restored.project)
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
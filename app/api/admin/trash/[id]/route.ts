@@ -0,0 +1,28 @@
+import { type NextRequest } from "next/server"
+import { handleApiError, successResponse, ApiError } from "@/lib/api-helpers"
+import { requireRole } from "@/lib/auth"
+import { recordAuditEvent, userActor } from "@/lib/audit"
+import { purgeProject } from "@/lib/project-trash"
+
+// DELETE /api/admin/trash/:id → permanently delete a trashed project with its milestones and activity
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireRole("admin")
+    const projectId = Number.parseInt(params.id)
+    if (!Number.isFinite(projectId)) throw new ApiError(400, "Invalid project id")
+
+    const purged = await purgeProject(projectId)
+    if (!purged) throw new ApiError(404, "Project is not in the trash")
+    await recordAuditEvent({
+      actor: userActor(user),
+      action: "project.purge",
+      entityType: "project",
+      entityId: projectId,
+      projectId,
+      before: purged,
+    })
+    return successResponse({ id: projectId })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
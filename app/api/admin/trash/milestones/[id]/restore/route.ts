@@ -0,0 +1,29 @@
+import { type NextRequest } from "next/server"
+import { handleApiError, successResponse, ApiError } from "@/lib/api-helpers"
+import { requireRole } from "@/lib/auth"
+import { recordAuditEvent, userActor } from "@/lib/audit"
+import { restoreMilestone } from "@/lib/project-trash"
+
+// POST /api/admin/trash/milestones/:id/restore → bring a trashed milestone back (its project must be live)
+export async function POST(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireRole("admin")
+    const milestoneId = Number.parseInt(params.id)
+    if (!Number.isFinite(milestoneId)) throw new ApiError(400, "Invalid milestone id")
+
+    const restored = await restoreMilestone(milestoneId)
+    if (!restored) throw new ApiError(404, "Milestone is not in the trash, or its project is; restore the project first")
+    await recordAuditEvent({
+      actor: userActor(user),
+      action: "milestone.restore",
+      entityType: "milestone",
+      entityId: milestoneId,
+      projectId: restored.milestone.project_id,
+      before: restored.trashed,
+      after: { deleted_at: null, deleted_by: null },
+    })
+    return successResponse(restored.milestone)
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,28 @@
+import { type NextRequest } from "next/server"
+import { handleApiError, successResponse, ApiError } from "@/lib/api-helpers"
+import { requireRole } from "@/lib/auth"
+import { recordAuditEvent, userActor } from "@/lib/audit"
+import { purgeMilestone } from "@/lib/project-trash"
+
+// DELETE /api/admin/trash/milestones/:id → permanently delete a trashed milestone
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireRole("admin")
+    const milestoneId = Number.parseInt(params.id)
+    if (!Number.isFinite(milestoneId)) throw new ApiError(400, "Invalid milestone id")
+
+    const purged = await purgeMilestone(milestoneId)
+    if (!purged) throw new ApiError(404, "Milestone is not in the trash")
+    await recordAuditEvent({
+      actor: userActor(user),
+      action: "milestone.purge",
+      entityType: "milestone",
+      entityId: milestoneId,
+      projectId: purged.project_id,
+      before: purged,
+    })
+    return successResponse({ id: milestoneId })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,15 @@
+import { handleApiError, successResponse } from "@/lib/api-helpers"
+import { requireRole } from "@/lib/auth"
+import { listTrashedMilestones } from "@/lib/project-trash"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/admin/trash/milestones → milestones deleted on their own, newest first, with their purge date
+export async function GET() {
+  try {
+    await requireRole("admin")
+    return successResponse(await listTrashedMilestones())
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,15 @@
+import { handleApiError, successResponse } from "@/lib/api-helpers"
+import { requireRole } from "@/lib/auth"
+import { listTrashedProjects } from "@/lib/project-trash"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/admin/trash → deleted projects, newest first, with the date each will be purged
+export async function GET() {
+  try {
+    await requireRole("admin")
+    return successResponse(await listTrashedProjects())
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,59 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { config } from "@/configs/config"
+import { OAUTH_STATE_COOKIE, safeNextPath, upsertDiscordUser } from "@/lib/auth"
+import { SESSION_COOKIE, sessionCookieOptions, signSession } from "@/lib/session"
+
+export const dynamic = "force-dynamic"
+
+function loginError(req: NextRequest, error: string) {
+  const res = NextResponse.redirect(new URL(`/login?error=${error}`, req.url))
+  res.cookies.delete({ name: OAUTH_STATE_COOKIE, path: "/api/auth/discord" })
+  return res
+}
+
+// GET /api/auth/discord/callback?code=…&state=… → exchange the code, sign the user in, go back to `next`
+export async function GET(req: NextRequest) {
+  try {
+    const code = req.nextUrl.searchParams.get("code")
+    const state = req.nextUrl.searchParams.get("state")
+    let expected: { state?: string; next?: string } = {}
+    try {
+      expected = JSON.parse(req.cookies.get(OAUTH_STATE_COOKIE)?.value || "{}")
+    } catch {}
+    if (!code || !state || state !== expected.state) return loginError(req, "invalid_state")
+
+    const tokenRes = await fetch("https://discord.com/api/oauth2/token", {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        client_id: config.discordAppId,
+        client_secret: config.discordClientSecret,
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: `${config.backendUrl}/api/auth/discord/callback`,
+      }),
+      cache: "no-store",
+    })
+    if (!tokenRes.ok) {
+      console.error("[auth/discord] token exchange failed:", tokenRes.status, await tokenRes.text().catch(() => ""))
+      return loginError(req, "oauth_failed")
+    }
+    const { access_token } = (await tokenRes.json()) as { access_token: string }
+
+    const meRes = await fetch("https://discord.com/api/v10/users/@me", {
+      headers: { Authorization: `Bearer ${access_token}` },
+      cache: "no-store",
+    })
+    if (!meRes.ok) return loginError(req, "oauth_failed")
+    const user = await upsertDiscordUser(await meRes.json())
+    const token = await signSession({ sub: user.id, discord_id: user.discord_id, name: user.name, role: user.role })
+
+    const res = NextResponse.redirect(new URL(safeNextPath(expected.next), req.url))
+    res.cookies.set(SESSION_COOKIE, token, sessionCookieOptions)
+    res.cookies.delete({ name: OAUTH_STATE_COOKIE, path: "/api/auth/discord" })
+    return res
+  } catch (error) {
+    console.error("[auth/discord] callback error:", error)
+    return loginError(req, "oauth_failed")
+  }
+}
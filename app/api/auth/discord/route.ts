@@ -0,0 +1,29 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { config } from "@/configs/config"
+import { OAUTH_STATE_COOKIE, safeNextPath } from "@/lib/auth"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/auth/discord?next=/admin → redirect to Discord's consent screen
+export async function GET(req: NextRequest) {
+  const state = crypto.randomUUID()
+  const next = safeNextPath(req.nextUrl.searchParams.get("next"))
+
+  const url = new URL("https://discord.com/oauth2/authorize")
+  url.searchParams.set("client_id", config.discordAppId)
+  url.searchParams.set("response_type", "code")
+  url.searchParams.set("scope", "identify")
+  url.searchParams.set("redirect_uri", `${config.backendUrl}/api/auth/discord/callback`)
+  url.searchParams.set("state", state)
+  url.searchParams.set("prompt", "none")
+
+  const res = NextResponse.redirect(url)
+  res.cookies.set(OAUTH_STATE_COOKIE, JSON.stringify({ state, next }), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/api/auth/discord",
+    maxAge: 10 * 60,
+  })
+  return res
+}
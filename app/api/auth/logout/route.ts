@@ -0,0 +1,9 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { SESSION_COOKIE } from "@/lib/session"
+
+// POST /api/auth/logout → clear the session cookie
+export async function POST(req: NextRequest) {
+  const res = NextResponse.redirect(new URL("/", req.url), { status: 303 })
+  res.cookies.delete(SESSION_COOKIE)
+  return res
+}
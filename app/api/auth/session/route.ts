@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+import { getSessionUser } from "@/lib/auth"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/auth/session → { user } for the signed-in user, { user: null } otherwise
+export async function GET() {
+  try {
+    const user = await getSessionUser()
+    if (!user) return NextResponse.json({ user: null })
+    const { id, discord_id, name, avatar, role } = user
+    return NextResponse.json({ user: { id, discord_id, name, avatar, role } })
+  } catch (error) {
+    console.error("[auth/session][GET] error:", error)
+    return NextResponse.json({ error: "Failed to load session" }, { status: 500 })
+  }
+}
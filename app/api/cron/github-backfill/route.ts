@@ -0,0 +1,36 @@
+// app/api/cron/github-backfill/route.ts
+import { NextResponse, NextRequest } from "next/server"
+import { listPendingGitHubBackfills, runGitHubBackfill } from "@/lib/github-backfill"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+export const maxDuration = 300
+
+// Repo imports run per invocation; each pass is capped, so unfinished imports continue next time
+const IMPORTS_PER_RUN = 5
+const TIME_BUDGET_MS = 240_000
+
+// --- GET: for Vercel Scheduled Functions ---
+export async function GET(req: NextRequest) {
+  try {
+    const isCron = req.headers.get("x-vercel-cron") === "1"
+    if (process.env.VERCEL && !isCron) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const deadline = Date.now() + TIME_BUDGET_MS
+    const results = []
+    for (const { projectId, repo } of await listPendingGitHubBackfills(IMPORTS_PER_RUN)) {
+      if (Date.now() >= deadline) break
+      const { backfill, imported, skipped } = await runGitHubBackfill(projectId, repo)
+      results.push({ project_id: projectId, repo, status: backfill?.status ?? null, imported, skipped })
+    }
+
+    return NextResponse.json({ results })
+  } catch (e: any) {
+    if (process.env.NODE_ENV === "development") {
+      console.error("[github-backfill][GET] error:", e)
+    }
+    return NextResponse.json({ error: e?.message || "Server error" }, { status: 500 })
+  }
+}
@@ -1,28 +1,43 @@
 // app/api/cron/risk-scan/route.ts
 import { NextResponse, NextRequest } from "next/server"
 import { sql } from "@/lib/db"
-import { config } from "@/configs/config"
+import {
+  checkRepoActivity,
+  normalizeRepo,
+  NO_ACTIVITY_FILTER,
+  type GitHubActivityCheck,
+  type RepoActivityFilter,
+} from "@/lib/github"
+import { listProjectRepositories } from "@/lib/project-repositories"
+import { activityExists, insertActivityLog } from "@/lib/activity-logs"
+import {
+  claimRiskScanProjects,
+  countOpenRiskScanProjects,
+  enqueueRiskScanProjects,
+  failRiskScanRun,
+  findUnfinishedRiskScanRun,
+  finishRiskScanRun,
+  getLatestFullRiskScanRun,
+  getRiskScanProgress,
+  getRiskScanRun,
+  saveRiskScanResult,
+  settleRiskScanProject,
+  startRiskScanRun,
+  type RiskScanOutcome,
+} from "@/lib/risk-scans"
+import { notifyRiskOutcome } from "@/lib/risk-notifications"
+import { DEFAULT_RISK_POLICY, evaluateRisk, getRiskPolicy, scoreProjectHealth } from "@/lib/risk-policy"
+import type { RepoCheck, RiskScanRun } from "@/lib/types"
+import { ApiError } from "@/lib/api-helpers"
+import { requireApiToken } from "@/lib/api-tokens"
+import { recordAuditEvent, tokenActor } from "@/lib/audit"
 
 export const runtime = "nodejs"
 export const dynamic = "force-dynamic"
+export const maxDuration = 300
 
 // --- helpers ---
-const DAYS_30_MS = 30 * 24 * 60 * 60 * 1000
-
-function isAtLeast30DaysOld(createdAt: string | Date) {
-  const created = new Date(createdAt)
-  const age = Date.now() - created.getTime()
-  return age >= DAYS_30_MS
-}
-
-function normalizeRepo(repo?: string | null): string | null {
-  if (!repo) return null
-  const r = repo.trim()
-  const m = r.match(/^https?:\/\/github\.com\/([^/\s]+)\/([^/\s]+?)(?:\.git|\/)?$/i)
-  if (m) return `${m[1]}/${m[2]}`
-  if (/^[^/\s]+\/[^/\s]+$/.test(r)) return r
-  return null
-}
+const DAY_MS = 24 * 60 * 60 * 1000
 
 async function getDiscordActivityCount(projectId: number, sinceIso: string) {
   const rows = await sql/*sql*/`
@@ -35,335 +50,396 @@ async function getDiscordActivityCount(projectId: number, sinceIso: string) {
   return (rows?.[0]?.cnt ?? 0) as number
 }
 
-// ---------- GitHub helpers ----------
-
-type GithubCommitSummary = {
-  sha: string
-  message: string | null
-  authorName: string | null
-  date: string | null
-  url: string | null
-}
-
-type GithubPrSummary = {
-  number: number
-  title: string | null
-  state: string
-  merged: boolean
-  updatedAt: string | null
-  mergedAt: string | null
-  url: string | null
+async function getMilestoneSummary(projectId: number) {
+  const rows = await sql/*sql*/`
+    SELECT
+      COUNT(*)::int AS total,
+      (COUNT(*) FILTER (WHERE status = 'completed'))::int AS completed,
+      (COUNT(*) FILTER (WHERE due_date < CURRENT_DATE AND status <> 'completed'))::int AS overdue,
+      COALESCE(SUM(budget), 0)::float AS total_budget,
+      COALESCE(SUM(budget) FILTER (WHERE status = 'completed'), 0)::float AS completed_budget
+    FROM milestones
+    WHERE project_id = ${projectId} AND deleted_at IS NULL
+  `
+  const r = rows?.[0] ?? {}
+  return {
+    total: (r.total ?? 0) as number,
+    completed: (r.completed ?? 0) as number,
+    overdue: (r.overdue ?? 0) as number,
+    totalBudget: (r.total_budget ?? 0) as number,
+    completedBudget: (r.completed_budget ?? 0) as number,
+  }
 }
 
-type GithubCheck = {
-  ok: boolean
-  reason?: string
-  commitActivity?: boolean
-  pullActivity?: boolean
-  lastCommit?: GithubCommitSummary | null
-  lastMergedPr?: GithubPrSummary | null
+async function getLastActivityAt(projectId: number) {
+  const rows = await sql/*sql*/`
+    SELECT MAX("timestamp") AS last_at
+    FROM activity_logs
+    WHERE project_id = ${projectId}
+  `
+  return (rows?.[0]?.last_at ?? null) as string | null
 }
 
-async function checkGithubActivity(repo: string, sinceIso: string): Promise<GithubCheck> {
-  if (!repo || !repo.includes("/")) return { ok: false, reason: "invalid_repo_format" }
-
-  const headers: Record<string, string> = {
-    Accept: "application/vnd.github+json",
-    "User-Agent": "risk-scan",
+// --- GitHub → Recent Updates (activity_logs) ---
+/** Mirror a repo's latest commit and merged PR into activity_logs (once per URL) */
+async function mirrorGithubActivity(projectId: number, repo: string, check: GitHubActivityCheck) {
+  // Latest commit → activity_type = "commit", source = "github"
+  if (check.lastCommit && check.lastCommit.url) {
+    const already = await activityExists(projectId, "commit", check.lastCommit.url)
+    if (!already) {
+      await insertActivityLog({
+        projectId,
+        activityType: "commit",
+        source: "github",
+        title: check.lastCommit.message?.split("\n")[0] || "Commit",
+        description: check.lastCommit.message,
+        url: check.lastCommit.url,
+        // The login, like the webhook and the backfill, so contributor rollups see one author
+        author: check.lastCommit.authorLogin ?? check.lastCommit.authorName,
+        timestamp: check.lastCommit.date,
+        metadata: { repo, sha: check.lastCommit.sha, via: "risk-scan" },
+      })
+    }
   }
-  if (config.githubToken) headers.Authorization = `Bearer ${config.githubToken}`
 
-  const base = `https://api.github.com/repos/${repo}`
-
-  try {
-    const sinceDate = new Date(sinceIso)
-
-    // --- latest commit (we want the latest, then check if it's within last 30d) ---
-    const commitsUrl = `${base}/commits?per_page=1`
-    const cRes = await fetch(commitsUrl, { headers, cache: "no-store" })
-    if (!cRes.ok) {
-      const t = await cRes.text().catch(() => "")
-      return { ok: false, reason: `commits_check_failed:${cRes.status}:${t}` }
+  // Latest merged PR → activity_type = "merge", source = "github"
+  if (check.lastMergedPr && check.lastMergedPr.url) {
+    const already = await activityExists(projectId, "merge", check.lastMergedPr.url)
+    if (!already) {
+      await insertActivityLog({
+        projectId,
+        activityType: "merge",
+        source: "github",
+        title: check.lastMergedPr.title || `Merged PR #${check.lastMergedPr.number}`,
+        description: check.lastMergedPr.merged
+          ? `PR #${check.lastMergedPr.number} merged`
+          : `PR #${check.lastMergedPr.number} (${check.lastMergedPr.state})`,
+        url: check.lastMergedPr.url,
+        author: null,
+        timestamp: check.lastMergedPr.mergedAt || check.lastMergedPr.updatedAt,
+        metadata: { repo, pr_number: check.lastMergedPr.number, via: "risk-scan" },
+      })
     }
-    const commits = (await cRes.json()) as any[]
-    let lastCommit: GithubCommitSummary | null = null
-    let commitActivity = false
-
-    if (Array.isArray(commits) && commits.length > 0) {
-      const c = commits[0]
-      const cMsg = c?.commit?.message ?? null
-      const cDate: string | null =
-        c?.commit?.author?.date ?? c?.commit?.committer?.date ?? null
-      const cAuthor: string | null =
-        c?.commit?.author?.name ??
-        c?.author?.login ??
-        c?.commit?.committer?.name ??
-        null
-
-      lastCommit = {
-        sha: c?.sha ?? "",
-        message: cMsg,
-        authorName: cAuthor,
-        date: cDate,
-        url: c?.html_url ?? null,
-      }
+  }
+}
 
-      if (cDate) {
-        const d = new Date(cDate)
-        commitActivity = d >= sinceDate
-      }
-    }
+// --- per-project scan ---
+/** Evaluate one project. A dry run reads only: no activity rows are written. */
+async function scanProject(p: any, { dryRun }: { dryRun: boolean }): Promise<RiskScanOutcome> {
+  const policy = getRiskPolicy(p.program_type)
+  const window = `${policy.windowDays}d`
+  const projectSinceIso = new Date(Date.now() - policy.windowDays * DAY_MS).toISOString()
+
+  const createdAt = new Date(p.created_at)
+  const ageDays = Math.floor((Date.now() - createdAt.getTime()) / DAY_MS)
+
+  const discordCount = await getDiscordActivityCount(p.id, projectSinceIso)
+  const discordHas = discordCount > 0
+  const milestones = await getMilestoneSummary(p.id)
+  const overdueCount = milestones.overdue
+
+  // Activity in any linked repo counts for the project, within each repo's branch/author filter
+  const repos = await listProjectRepositories(p.id)
+  const legacyRepo = normalizeRepo(p.github_repo)
+  const linked: Array<{ repo: string; filter: RepoActivityFilter }> =
+    repos.length > 0
+      ? repos.map((r) => ({ repo: r.repo, filter: { branches: r.branches, excludedAuthors: r.excluded_authors } }))
+      : legacyRepo
+        ? [{ repo: legacyRepo, filter: NO_ACTIVITY_FILTER }]
+        : []
+  const repoNames = linked.map((l) => l.repo)
+  let repo_check: RepoCheck = "none"
+  let gh: RiskScanOutcome["github"] = {}
+  let githubDates: Array<string | null | undefined> = []
+
+  if (repoNames.length === 0 && p.github_repo) {
+    repo_check = "invalid"
+    gh = { reason: "invalid_repo_format" }
+  } else if (repoNames.length > 0) {
+    const checks = await Promise.all(
+      linked.map(async ({ repo, filter }) => ({ repo, res: await checkRepoActivity(repo, projectSinceIso, filter) })),
+    )
+    const ok = checks.filter((c) => c.res.ok)
+    const failed = checks.filter((c) => !c.res.ok)
+    const reason = failed.length > 0 ? failed.map((c) => `${c.repo}: ${c.res.reason}`).join("; ") : undefined
 
-    // --- latest merged PR (pick most recently merged; check if within 30d) ---
-    const prsUrl = `${base}/pulls?state=all&sort=updated&direction=desc&per_page=20`
-    const pRes = await fetch(prsUrl, { headers, cache: "no-store" })
-    if (!pRes.ok) {
-      const t = await pRes.text().catch(() => "")
-      return {
-        ok: false,
-        reason: `prs_check_failed:${pRes.status}:${t}`,
-        commitActivity,
-        lastCommit,
+    if (ok.length === 0) {
+      repo_check = failed.every((c) => c.res.reason?.startsWith("invalid_repo_format")) ? "invalid" : "error"
+      gh = { reason }
+    } else {
+      repo_check = "checked"
+      gh = {
+        commitActivity: ok.some((c) => !!c.res.commitActivity),
+        pullActivity: ok.some((c) => !!c.res.pullActivity),
+        ...(reason ? { reason } : {}),
+        repos: checks.map((c) => ({
+          repo: c.repo,
+          commitActivity: !!c.res.commitActivity,
+          pullActivity: !!c.res.pullActivity,
+          ...(c.res.ok ? {} : { reason: c.res.reason }),
+        })),
       }
-    }
-    const pulls = (await pRes.json()) as any[]
-    let lastMergedPr: GithubPrSummary | null = null
-    let pullActivity = false
-
-    if (Array.isArray(pulls) && pulls.length > 0) {
-      const mergedPr = pulls.find((pr) => !!pr?.merged_at) ?? null
-      if (mergedPr) {
-        const mergedAt: string | null = mergedPr.merged_at ?? null
-        const updatedAt: string | null = mergedPr.updated_at ?? null
-
-        lastMergedPr = {
-          number: mergedPr.number,
-          title: mergedPr.title ?? null,
-          state: mergedPr.state ?? "closed",
-          merged: !!mergedPr.merged_at,
-          updatedAt,
-          mergedAt,
-          url: mergedPr.html_url ?? null,
-        }
+      githubDates = ok.flatMap((c) => [c.res.lastCommit?.date, c.res.lastMergedPr?.mergedAt])
 
-        const compareDateStr = mergedAt ?? updatedAt
-        if (compareDateStr) {
-          const d = new Date(compareDateStr)
-          pullActivity = d >= sinceDate
-        }
+      if (!dryRun) {
+        for (const c of ok) await mirrorGithubActivity(p.id, c.repo, c.res)
       }
     }
-
-    return {
-      ok: true,
-      commitActivity,
-      pullActivity,
-      lastCommit,
-      lastMergedPr,
-    }
-  } catch (e: any) {
-    return { ok: false, reason: `github_error:${e?.message || "unknown"}` }
   }
-}
 
-// ---------- activity_logs helpers ----------
+  const evaluated = evaluateRisk(
+    {
+      ageDays,
+      githubCommits: repo_check === "checked" ? !!gh.commitActivity : null,
+      mergedPrs: repo_check === "checked" ? !!gh.pullActivity : null,
+      discordUpdates: discordCount,
+      overdueMilestones: overdueCount,
+    },
+    policy,
+  )
+
+  // The latest GitHub dates count as activity even when a dry run did not record them
+  const lastActivityAt = [await getLastActivityAt(p.id), ...githubDates]
+    .filter((d): d is string => !!d)
+    .reduce<string | null>((latest, d) => (!latest || new Date(d) > new Date(latest) ? d : latest), null)
+
+  const { score, factors } = scoreProjectHealth(
+    {
+      createdAt,
+      startDate: p.start_date,
+      endDate: p.end_date,
+      lastActivityAt,
+      milestones,
+    },
+    policy,
+  )
+  const lowScore = evaluated.final === "active" && score < policy.atRiskScoreBelow
+  const final = lowScore ? "at_risk" : evaluated.final
+
+  // too new → still appear in results but not marked at_risk (policy grace period)
+  const hasActivity = discordHas || !!gh.commitActivity || !!gh.pullActivity
+  const overdueNote = overdueCount > 0 ? `${overdueCount} overdue milestone${overdueCount > 1 ? "s" : ""}` : ""
+  let note = ""
+  if (final === "too_new") {
+    note = `Project age < ${policy.gracePeriodDays} days`
+  } else if (lowScore) {
+    const weakest = factors
+      .filter((f) => f.weight > 0)
+      .sort((a, b) => a.points / a.weight - b.points / b.weight)[0]
+    note = `Has Discord and/or GitHub activity in ${window} but health score is ${score}/100`
+    if (weakest) note += ` (${weakest.detail.charAt(0).toLowerCase()}${weakest.detail.slice(1)})`
+  } else if (final === "at_risk" && hasActivity) {
+    note = `Has Discord and/or GitHub activity in ${window} but ${overdueNote || "below the risk policy threshold"}`
+  } else if (final === "at_risk") {
+    if (repoNames.length === 0 && !p.github_repo) note = `No Discord updates in ${window} and no GitHub repo set`
+    else if (repo_check === "invalid") note = `No Discord updates in ${window} and GitHub repo format is invalid`
+    else if (repo_check === "error") note = `No Discord updates in ${window} and GitHub check errored`
+    else note = `No Discord updates in ${window} and no GitHub activity in ${window}`
+    if (overdueNote) note += `; ${overdueNote}`
+  } else {
+    note = `Has Discord and/or GitHub activity in ${window}`
+    if (overdueNote) note += `; ${overdueNote}`
+  }
 
-async function activityExists(projectId: number, activity_type: string, url: string | null): Promise<boolean> {
-  if (!url) return false
-  const rows = await sql/*sql*/`
-    SELECT 1
-    FROM activity_logs
-    WHERE project_id = ${projectId}
-      AND activity_type = ${activity_type}
-      AND url = ${url}
-    LIMIT 1
-  `
-  return rows.length > 0
+  const outcome: RiskScanOutcome = {
+    projectId: p.id,
+    name: p.name,
+    created_at: createdAt.toISOString(),
+    age_days: ageDays,
+    repo: repoNames.length > 0 ? repoNames.join(", ").slice(0, 255) : null,
+    repo_check,
+    github: gh,
+    discord: { hasActivity: discordHas, countKnown: discordCount },
+    final,
+    note,
+    score,
+    factors,
+  }
+  return outcome
 }
 
-async function insertActivityLog(entry: {
-  projectId: number
-  activity_type: string
-  source: string
-  title: string | null
-  description: string | null
-  url: string | null
-  author: string | null
-  timestamp: string | null
-}) {
-  const { projectId, activity_type, source, title, description, url, author, timestamp } = entry
-
-  await sql/*sql*/`
-    INSERT INTO activity_logs (project_id, activity_type, source, title, description, url, author, "timestamp")
-    VALUES (
-      ${projectId},
-      ${activity_type},
-      ${source},
-      ${title},
-      ${description},
-      ${url},
-      ${author},
-      ${timestamp ? new Date(timestamp) : new Date()}
-    )
-  `
-}
+/** Persist a project's outcome in the run and send whatever at-risk notifications are due */
+async function recordOutcome(runId: number, p: any, outcome: RiskScanOutcome) {
+  await saveRiskScanResult(runId, outcome)
 
-// --- core job ---
-async function runRiskScanJob() {
-  const since = new Date(Date.now() - DAYS_30_MS)
-  const sinceIso = since.toISOString()
+  // A failed notification must not fail the scan; attempts are logged in risk_notifications
+  try {
+    await notifyRiskOutcome(runId, p, { final: outcome.final, note: outcome.note, score: outcome.score })
+  } catch (e: any) {
+    console.error("[risk-scan] notification error:", p.id, e?.message || e)
+  }
+}
 
-  const projects = await sql/*sql*/`
-    SELECT id, name, status, github_repo, created_at
+// --- queued job ---
+// Projects are queued per run and worked through in small parallel batches; a run that hits the
+// function time limit keeps its queue and the next trigger picks it up where it stopped.
+const RISK_SCAN_CONCURRENCY = 5
+const RISK_SCAN_TIME_BUDGET_MS = 240_000
+/** The scheduler fires often so unfinished runs resume quickly; a fresh run starts at most this often */
+const RISK_SCAN_INTERVAL_MS = 20 * 60 * 60 * 1000
+
+async function loadProjects(ids: number[] | null) {
+  if (ids) {
+    return await sql/*sql*/`
+      SELECT id, name, status, program_type, github_repo, discord_channel, assignee_discord_id, created_at, start_date, end_date
+      FROM projects
+      WHERE id = ANY(${ids}) AND deleted_at IS NULL
+    `
+  }
+  return await sql/*sql*/`
+    SELECT id, name, status, program_type, github_repo, discord_channel, assignee_discord_id, created_at, start_date, end_date
     FROM projects
+    WHERE deleted_at IS NULL
     ORDER BY created_at DESC
   `
+}
 
-  const results: Array<{
-    projectId: number
-    name: string
-    created_at: string
-    age_days: number
-    repo: string | null
-    repo_check: "none" | "checked" | "invalid" | "error"
-    github: { commitActivity?: boolean; pullActivity?: boolean; reason?: string }
-    discord: { hasActivity: boolean; countKnown?: number }
-    final: "active" | "at_risk" | "too_new"
-    note: string
-  }> = []
-
-  for (const p of projects as any[]) {
-    const createdAt = new Date(p.created_at)
-    const ageDays = Math.floor((Date.now() - createdAt.getTime()) / (24 * 60 * 60 * 1000))
-
-    const discordCount = await getDiscordActivityCount(p.id, sinceIso)
-    const discordHas = discordCount > 0
-
-    const normRepo = normalizeRepo(p.github_repo)
-    let repo_check: "none" | "checked" | "invalid" | "error" = "none"
-    let gh: { commitActivity?: boolean; pullActivity?: boolean; reason?: string } = {}
-
-    if (normRepo === null && p.github_repo) {
-      repo_check = "invalid"
-      gh = { reason: "invalid_repo_format" }
-    } else if (normRepo) {
-      const ghRes = await checkGithubActivity(normRepo, sinceIso)
-      if (!ghRes.ok) {
-        repo_check = ghRes.reason?.startsWith("invalid_repo_format") ? "invalid" : "error"
-        gh = { reason: ghRes.reason }
-      } else {
-        repo_check = "checked"
-        gh = {
-          commitActivity: !!ghRes.commitActivity,
-          pullActivity: !!ghRes.pullActivity,
-        }
-
-        // ---- GitHub → Recent Updates (activity_logs) ----
-        // Latest commit → activity_type = "commit", source = "github"
-        if (ghRes.lastCommit && ghRes.lastCommit.url) {
-          const already = await activityExists(p.id, "commit", ghRes.lastCommit.url)
-          if (!already) {
-            await insertActivityLog({
-              projectId: p.id,
-              activity_type: "commit",
-              source: "GITHUB", // this becomes the "GITHUB" tag in your UI
-              title: ghRes.lastCommit.message?.split("\n")[0] || "Commit",
-              description: ghRes.lastCommit.message,
-              url: ghRes.lastCommit.url,
-              author: ghRes.lastCommit.authorName,
-              timestamp: ghRes.lastCommit.date,
-            })
-          }
-        }
+/** Resume the unfinished run if there is one, otherwise queue a new run over every project */
+async function startOrResumeRiskScan(trigger: RiskScanRun["trigger"]) {
+  const unfinished = await findUnfinishedRiskScanRun()
+  if (unfinished) return { run: unfinished, resumed: true }
 
-        // Latest merged PR → activity_type = "merge", source = "github"
-        if (ghRes.lastMergedPr && ghRes.lastMergedPr.url) {
-          const already = await activityExists(p.id, "merge", ghRes.lastMergedPr.url)
-          if (!already) {
-            await insertActivityLog({
-              projectId: p.id,
-              activity_type: "merge",
-              source: "GITHUB", // will show as GITHUB tag
-              title: ghRes.lastMergedPr.title || `Merged PR #${ghRes.lastMergedPr.number}`,
-              description: ghRes.lastMergedPr.merged
-                ? `PR #${ghRes.lastMergedPr.number} merged`
-                : `PR #${ghRes.lastMergedPr.number} (${ghRes.lastMergedPr.state})`,
-              url: ghRes.lastMergedPr.url,
-              author: null,
-              timestamp: ghRes.lastMergedPr.mergedAt || ghRes.lastMergedPr.updatedAt,
-            })
-          }
-        }
-        // ---- end GitHub → Recent Updates ----
-      }
-    } else {
-      repo_check = "none"
-    }
+  // Per-project windows come from the risk policy; the run records the default window
+  const sinceIso = new Date(Date.now() - DEFAULT_RISK_POLICY.windowDays * DAY_MS).toISOString()
+  const projects = await sql/*sql*/`SELECT id FROM projects WHERE deleted_at IS NULL ORDER BY created_at DESC`
 
-    // too new → still appear in results but not marked at_risk
-    if (!isAtLeast30DaysOld(createdAt)) {
-      results.push({
-        projectId: p.id,
-        name: p.name,
-        created_at: createdAt.toISOString(),
-        age_days: ageDays,
-        repo: normRepo,
-        repo_check,
-        github: gh,
-        discord: { hasActivity: discordHas, countKnown: discordCount },
-        final: "too_new",
-        note: "Project age < 30 days",
-      })
-      continue
-    }
+  const run = await startRiskScanRun(trigger, sinceIso)
+  try {
+    await enqueueRiskScanProjects(run.id, projects.map((p: any) => p.id as number))
+  } catch (e: any) {
+    await failRiskScanRun(run.id, e?.message || "unknown error").catch(() => {})
+    throw e
+  }
+  return { run, resumed: false }
+}
 
-    const noGithubActivity =
-      !normRepo ||
-      (repo_check === "checked" && !gh.commitActivity && !gh.pullActivity) ||
-      repo_check === "invalid" ||
-      repo_check === "error"
+/** Scan projects without recording anything; stops early (truncated) when the time budget runs out */
+async function dryRunRiskScan(projects: any[]) {
+  const deadline = Date.now() + RISK_SCAN_TIME_BUDGET_MS
+  const results: RiskScanOutcome[] = []
+  for (let i = 0; i < projects.length; i += RISK_SCAN_CONCURRENCY) {
+    if (Date.now() >= deadline) return { results, truncated: true }
+    const batch = projects.slice(i, i + RISK_SCAN_CONCURRENCY)
+    results.push(...(await Promise.all(batch.map((p) => scanProject(p, { dryRun: true })))))
+  }
+  return { results, truncated: false }
+}
 
-    const final: "active" | "at_risk" = !discordHas && noGithubActivity ? "at_risk" : "active"
+/** Rescan one project now, as its own single-project run */
+async function rescanProject(p: any) {
+  const sinceIso = new Date(Date.now() - getRiskPolicy(p.program_type).windowDays * DAY_MS).toISOString()
+  const run = await startRiskScanRun("manual", sinceIso, p.id)
+  try {
+    await recordOutcome(run.id, p, await scanProject(p, { dryRun: false }))
+  } catch (e: any) {
+    await failRiskScanRun(run.id, e?.message || "unknown error").catch(() => {})
+    throw e
+  }
+  await finishRiskScanRun(run.id)
+  return run
+}
 
-    let note = ""
-    if (final === "at_risk") {
-      if (!normRepo) note = "No Discord updates in 30d and no GitHub repo set"
-      else if (repo_check === "invalid") note = "No Discord updates in 30d and GitHub repo format is invalid"
-      else if (repo_check === "error") note = "No Discord updates in 30d and GitHub check errored"
-      else note = "No Discord updates in 30d and no GitHub activity in 30d"
-    } else {
-      note = "Has Discord and/or GitHub activity in 30d"
+/**
+ * Work through the run's queue until it is empty (then close the run) or the time budget is spent.
+ * Returns whether the run was closed.
+ */
+async function processRiskScanRun(runId: number): Promise<boolean> {
+  const deadline = Date.now() + RISK_SCAN_TIME_BUDGET_MS
+
+  while (Date.now() < deadline) {
+    const ids = await claimRiskScanProjects(runId, RISK_SCAN_CONCURRENCY)
+    if (ids.length === 0) {
+      if ((await countOpenRiskScanProjects(runId)) > 0) return false
+      await finishRiskScanRun(runId)
+      return true
     }
 
-    results.push({
-      projectId: p.id,
-      name: p.name,
-      created_at: createdAt.toISOString(),
-      age_days: ageDays,
-      repo: normRepo,
-      repo_check,
-      github: gh,
-      discord: { hasActivity: discordHas, countKnown: discordCount },
-      final,
-      note,
-    })
+    const projects = await loadProjects(ids)
+    const byId = new Map(projects.map((p: any) => [p.id as number, p]))
+
+    await Promise.all(
+      ids.map(async (id) => {
+        const p = byId.get(id)
+        if (!p) return settleRiskScanProject(runId, id, "failed", "project_not_found")
+        try {
+          await recordOutcome(runId, p, await scanProject(p, { dryRun: false }))
+          await settleRiskScanProject(runId, id, "done")
+        } catch (e: any) {
+          console.error("[risk-scan] project failed:", id, e?.message || e)
+          await settleRiskScanProject(runId, id, "failed", e?.message || "unknown error")
+        }
+      }),
+    )
   }
-
-  return { since: sinceIso, results }
+  return false
 }
 
-// --- POST: manual / scheduler trigger with SERVICE_BOT_TOKEN ---
+// --- POST: manual / scheduler trigger with a scan:run API token ---
 export async function POST(req: Request) {
   try {
-    const auth = req.headers.get("authorization") || ""
-    const token = auth.startsWith("Bearer ") ? auth.slice("Bearer ".length) : ""
-    if (!config.serviceBotToken || token !== config.serviceBotToken) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    const apiToken = await requireApiToken(req, "scan:run")
+
+    // ?project_id=<id> scans one project; ?dry_run=true computes results without writing activity,
+    // results or notifications
+    const { searchParams } = new URL(req.url)
+    const dryRun = searchParams.get("dry_run") === "true"
+    const projectIdParam = searchParams.get("project_id")
+    const projectId = projectIdParam === null ? null : Number.parseInt(projectIdParam)
+    if (projectId !== null && !Number.isFinite(projectId)) {
+      return NextResponse.json({ error: "Invalid project_id" }, { status: 400 })
     }
 
-    const out = await runRiskScanJob()
-    return NextResponse.json(out)
+    if (projectId !== null || dryRun) {
+      const projects = await loadProjects(projectId === null ? null : [projectId])
+      if (projectId !== null && projects.length === 0) {
+        return NextResponse.json({ error: "Project not found" }, { status: 404 })
+      }
+
+      if (dryRun) {
+        const { results, truncated } = await dryRunRiskScan(projects)
+        return NextResponse.json({ dry_run: true, run_id: null, results, truncated })
+      }
+
+      const run = await rescanProject(projects[0])
+      await recordAuditEvent({
+        actor: tokenActor(apiToken),
+        action: "risk_scan.run",
+        entityType: "risk_scan_run",
+        entityId: run.id,
+        projectId,
+        after: { status: run.status, trigger: run.trigger },
+      })
+      return NextResponse.json(await getRiskScanRun(run.id))
+    }
+
+    const { run, resumed } = await startOrResumeRiskScan("manual")
+    await recordAuditEvent({
+      actor: tokenActor(apiToken),
+      action: resumed ? "risk_scan.resume" : "risk_scan.run",
+      entityType: "risk_scan_run",
+      entityId: run.id,
+      after: { status: run.status, trigger: run.trigger },
+    })
+
+    // Serverless instances are frozen once the response is sent, so the first time-budgeted batch runs before
+    // responding; whatever is left (202) is picked up by the */15 cron (GET), which resumes unfinished runs
+    const finished = await processRiskScanRun(run.id)
+
+    return NextResponse.json(
+      {
+        run_id: run.id,
+        status: finished ? "completed" : "running",
+        resumed,
+        since: run.since,
+        progress: await getRiskScanProgress(run.id),
+        poll: `/api/risk-scans/${run.id}`,
+      },
+      { status: finished ? 200 : 202 },
+    )
   } catch (e: any) {
+    if (e instanceof ApiError) {
+      return NextResponse.json({ error: e.message }, { status: e.statusCode })
+    }
     if (process.env.NODE_ENV === "development") {
       console.error("[risk-scan][POST] error:", e)
     }
@@ -379,8 +455,18 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 })
     }
 
-    const out = await runRiskScanJob()
-    return NextResponse.json(out)
+    // Continue an unfinished run first; only start a new one once the interval has passed
+    const unfinished = await findUnfinishedRiskScanRun()
+    if (!unfinished) {
+      const latest = await getLatestFullRiskScanRun()
+      if (latest && Date.now() - new Date(latest.started_at).getTime() < RISK_SCAN_INTERVAL_MS) {
+        return NextResponse.json({ run_id: null, status: "idle", last_run_id: latest.id })
+      }
+    }
+
+    const { run, resumed } = await startOrResumeRiskScan("cron")
+    await processRiskScanRun(run.id)
+    return NextResponse.json({ run_id: run.id, resumed, progress: await getRiskScanProgress(run.id) })
   } catch (e: any) {
     if (process.env.NODE_ENV === "development") {
       console.error("[risk-scan][GET] error:", e)
@@ -0,0 +1,58 @@
+// app/api/cron/trash-purge/route.ts
+import { NextResponse, NextRequest } from "next/server"
+import { recordAuditEvent, SYSTEM_ACTOR } from "@/lib/audit"
+import { purgeExpiredMilestones, purgeExpiredProjects } from "@/lib/project-trash"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+// --- GET: for Vercel Scheduled Functions; purges projects and milestones trashed longer than the retention window ---
+export async function GET(req: NextRequest) {
+  try {
+    const isCron = req.headers.get("x-vercel-cron") === "1"
+    if (process.env.VERCEL && !isCron) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const purged = await purgeExpiredProjects()
+    for (const project of purged) {
+      await recordAuditEvent({
+        actor: SYSTEM_ACTOR,
+        action: "project.purge",
+        entityType: "project",
+        entityId: project.id,
+        projectId: project.id,
+        before: project,
+        metadata: { reason: "retention_expired" },
+      })
+    }
+
+    const purgedMilestones = await purgeExpiredMilestones()
+    for (const milestone of purgedMilestones) {
+      await recordAuditEvent({
+        actor: SYSTEM_ACTOR,
+        action: "milestone.purge",
+        entityType: "milestone",
+        entityId: milestone.id,
+        projectId: milestone.project_id,
+        before: milestone,
+        metadata: { reason: "retention_expired" },
+      })
+    }
+
+    return NextResponse.json({
+      purged: purged.map((p) => ({ id: p.id, name: p.name, deleted_at: p.deleted_at })),
+      purged_milestones: purgedMilestones.map((m) => ({
+        id: m.id,
+        project_id: m.project_id,
+        title: m.title,
+        deleted_at: m.deleted_at,
+      })),
+    })
+  } catch (e: any) {
+    if (process.env.NODE_ENV === "development") {
+      console.error("[trash-purge][GET] error:", e)
+    }
+    return NextResponse.json({ error: e?.message || "Server error" }, { status: 500 })
+  }
+}
@@ -9,7 +9,7 @@ export async function GET(req: Request) {
     const rows = await sql/*sql*/`
     SELECT id, name
     FROM projects
-    WHERE assignee_discord_id = ${discordId}
+    WHERE assignee_discord_id = ${discordId} AND deleted_at IS NULL
     ORDER BY updated_at DESC, created_at DESC
     LIMIT 200
   `;
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server"
+import { linkGitHubIdentity } from "@/lib/contributors"
+import { ApiError } from "@/lib/api-helpers"
+import { GitHubApiError } from "@/lib/github"
+import { requireApiToken } from "@/lib/api-tokens"
+import { recordAuditEvent, tokenActor } from "@/lib/audit"
+
+// GitHub login rules: alphanumerics and single hyphens, at most 39 characters
+const GITHUB_LOGIN = /^[a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38}$/i
+
+/**
+ * POST /api/discord/github-identity
+ * Auth: Bearer API token with the activity:write scope
+ * Body: { discord_id, discord_username?, github_login } — sent by the bot's /link-github command
+ * The link is verified when the login's GitHub bio contains `challenge` (returned either way); a login already
+ * linked to another member answers 409 until the claim is verified.
+ */
+export async function POST(req: Request) {
+  try {
+    const apiToken = await requireApiToken(req, "activity:write")
+
+    const { discord_id, discord_username, github_login } = await req.json()
+    if (!discord_id) return NextResponse.json({ error: "discord_id required" }, { status: 400 })
+
+    const login = typeof github_login === "string" ? github_login.trim().replace(/^@/, "") : ""
+    if (!GITHUB_LOGIN.test(login)) {
+      return NextResponse.json({ error: "github_login must be a valid GitHub username" }, { status: 400 })
+    }
+
+    const { identity, challenge } = await linkGitHubIdentity(login, String(discord_id), discord_username || null)
+    if (!identity) {
+      return NextResponse.json(
+        {
+          error: `${login} is linked to another Discord member. Add ${challenge} to its GitHub bio to prove it is yours.`,
+          challenge,
+        },
+        { status: 409 },
+      )
+    }
+    await recordAuditEvent({
+      actor: tokenActor(apiToken, String(discord_id)),
+      action: "github_identity.link",
+      entityType: "github_identity",
+      entityId: identity.github_login,
+      after: identity,
+      metadata: { token: apiToken.name, verified: identity.verified_at !== null },
+    })
+    return NextResponse.json({ ...identity, verified: identity.verified_at !== null, challenge })
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
+    if (error instanceof GitHubApiError && error.status === 404) {
+      return NextResponse.json({ error: "No such GitHub user" }, { status: 404 })
+    }
+    console.error("[github-identity][POST] error:", error)
+    return NextResponse.json({ error: "Failed to link GitHub account" }, { status: 500 })
+  }
+}
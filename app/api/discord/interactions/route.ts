@@ -2,6 +2,7 @@
 import { config } from "@/configs/config"
 import { NextResponse, type NextRequest } from "next/server"
 import nacl from "tweetnacl"
+import { postChannelMessage } from "@/lib/discord"
 
 export const runtime = "nodejs"
 export const dynamic = "force-dynamic"
@@ -65,6 +66,36 @@ async function getAssignedProjects(discordId: string, base: string): Promise<Ass
   return (await res.json()) as AssignedProject[]
 }
 
+type ProjectRiskStatus = {
+  id: number
+  name: string
+  risk_status: "active" | "at_risk" | "too_new" | null
+  risk_note: string | null
+  risk_score: number | null
+  scanned_at: string | null
+  window_days: number
+}
+
+async function getRiskStatus(discordId: string, base: string): Promise<ProjectRiskStatus[]> {
+  const url = `${base}/api/discord/risk-status?discord_id=${encodeURIComponent(discordId)}`
+  const res = await trace("risk-status", url, { headers: { "Content-Type": "application/json" }, cache: "no-store" })
+  if (!res.ok) throw new Error(`Failed to load risk status (${res.status})`)
+  return (await res.json()) as ProjectRiskStatus[]
+}
+
+function formatRiskStatus(rows: ProjectRiskStatus[]) {
+  const icon = { active: "🟢", at_risk: "🔴", too_new: "⚪" } as const
+  return [
+    "**Risk status for your projects**",
+    ...rows.map((r) => {
+      if (!r.risk_status) return `❔ **${r.name}** — not scanned yet`
+      const score = r.risk_score == null ? "" : ` · health ${r.risk_score}/100`
+      const when = r.scanned_at ? ` (scanned <t:${Math.floor(new Date(r.scanned_at).getTime() / 1000)}:R>)` : ""
+      return `${icon[r.risk_status]} **${r.name}** — \`${r.risk_status}\`${score}: ${r.risk_note || "no details"}${when}`
+    }),
+  ].join("\n")
+}
+
 async function postJson(base: string, path: string, body: unknown, headers: Record<string, string> = {}) {
   const url = `${base}${path}`
   const res = await trace("post-json", url, {
@@ -105,27 +136,6 @@ async function patchJson(base: string, path: string, body: unknown, headers: Rec
   try { return await res.json() } catch { return null }
 }
 
-/** Post a normal (persistent) message in the channel using the bot token */
-async function postChannelMessage(channelId: string, content: string) {
-  if (!config.discordBotToken) {
-    console.warn("[interactions] No DISCORD_BOT_TOKEN_COMMANDER set; cannot post persistent channel messages.")
-    return
-  }
-  const url = `https://discord.com/api/v10/channels/${channelId}/messages`
-  const res = await trace("channel-message", url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bot ${config.discordBotToken}`,
-    },
-    body: JSON.stringify({ content }),
-  })
-  if (!res.ok) {
-    const txt = await res.text().catch(() => "")
-    console.error("[interactions] failed to post channel message:", res.status, txt)
-  }
-}
-
 function optionValue(id: number, name: string) {
   return `${id}::${encodeURIComponent(name)}`
 }
@@ -250,6 +260,24 @@ export async function POST(req: NextRequest) {
       }
     }
 
+    if (name === "risk-status") {
+      try {
+        const rows = await getRiskStatus(userId, base)
+        return NextResponse.json({
+          type: InteractionCallbackType.CHANNEL_MESSAGE_WITH_SOURCE,
+          data: {
+            content: rows.length ? formatRiskStatus(rows) : "No projects are assigned to you yet.",
+            flags: EPHEMERAL,
+          },
+        })
+      } catch (err: any) {
+        return NextResponse.json({
+          type: InteractionCallbackType.CHANNEL_MESSAGE_WITH_SOURCE,
+          data: { content: `❌ Error: ${err?.message || "failed to load risk status"}`, flags: EPHEMERAL },
+        })
+      }
+    }
+
     return NextResponse.json({
       type: InteractionCallbackType.CHANNEL_MESSAGE_WITH_SOURCE,
       data: { content: "Unknown command.", flags: EPHEMERAL },
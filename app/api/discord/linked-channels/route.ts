@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server"
+import { listLinkedChannels } from "@/lib/discord"
+import { ApiError } from "@/lib/api-helpers"
+import { requireApiToken } from "@/lib/api-tokens"
+
+/**
+ * GET /api/discord/linked-channels
+ * Auth: Bearer API token with the activity:write scope
+ * Channels the Discord gateway listener should record messages from.
+ */
+export async function GET(req: Request) {
+  try {
+    await requireApiToken(req, "activity:write")
+
+    return NextResponse.json(await listLinkedChannels())
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
+    console.error("[linked-channels][GET] error:", error)
+    return NextResponse.json({ error: "Failed to load linked channels" }, { status: 500 })
+  }
+}
@@ -1,17 +1,25 @@
 import { NextResponse } from "next/server"
 import { sql } from "@/lib/db"
 import { config } from "@/configs/config"
+import { ApiError, handleApiError } from "@/lib/api-helpers"
+import { requireRole } from "@/lib/auth"
+import { recordAuditEvent, userActor } from "@/lib/audit"
 
-
+/**
+ * POST /api/discord/resolve-assignee { projectId } (admin)
+ * Sets an unassigned project's assignee to the guild member whose username, display name or nickname is exactly
+ * the project's creator_username. The assignee may post progress and complete milestones from Discord.
+ */
 export async function POST(req: Request) {
   try {
+    const user = await requireRole("admin")
     const { projectId } = await req.json()
     if (!projectId) return NextResponse.json({ error: "projectId required" }, { status: 400 })
 
     const [p] = await sql/*sql*/`
       SELECT id, creator_username, assignee_discord_id
       FROM projects
-      WHERE id=${projectId}
+      WHERE id=${projectId} AND deleted_at IS NULL
       LIMIT 1
     `
     if (!p) return NextResponse.json({ error: "Project not found" }, { status: 404 })
@@ -33,7 +41,7 @@ export async function POST(req: Request) {
       m.user?.username?.toLowerCase() === lc ||
       m.user?.global_name?.toLowerCase() === lc ||
       m.nick?.toLowerCase() === lc
-    ) || members[0]
+    )
 
     if (!match) {
       return NextResponse.json({ ok: false, message: "No member matched. Ask the assignee to run /claim <project_id> in Discord." }, { status: 404 })
@@ -44,8 +52,19 @@ export async function POST(req: Request) {
       SET assignee_discord_id=${match.user.id}, updated_at=now()
       WHERE id=${projectId}
     `
+    await recordAuditEvent({
+      actor: userActor(user),
+      action: "project.resolve_assignee",
+      entityType: "project",
+      entityId: p.id,
+      projectId: p.id,
+      before: { assignee_discord_id: null },
+      after: { assignee_discord_id: match.user.id },
+      metadata: { creator_username: p.creator_username },
+    })
     return NextResponse.json({ ok: true, assignee_discord_id: match.user.id })
   } catch (e: any) {
+    if (e instanceof ApiError) return handleApiError(e)
     return NextResponse.json({ error: e.message || "Server error" }, { status: 500 })
   }
 }
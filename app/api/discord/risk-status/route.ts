@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { sql } from "@/lib/db"
+import { getRiskPolicy } from "@/lib/risk-policy"
+import { latestRiskResultJoin } from "@/lib/risk-scans"
+
+// GET /api/discord/risk-status?discord_id=… → latest risk outcome for each project assigned to the user
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const discordId = searchParams.get("discord_id")
+    if (!discordId) return NextResponse.json({ error: "discord_id required" }, { status: 400 })
+
+    const rows = await sql/*sql*/`
+      SELECT p.id, p.name, p.program_type, latest.final, latest.note, latest.score, latest.scanned_at
+      FROM projects p
+      ${latestRiskResultJoin()}
+      WHERE p.assignee_discord_id = ${discordId} AND p.deleted_at IS NULL
+      ORDER BY p.updated_at DESC, p.created_at DESC
+      LIMIT 25
+    `
+
+    return NextResponse.json(
+      rows.map((p: any) => ({
+        id: p.id,
+        name: p.name,
+        risk_status: p.final ?? null,
+        risk_note: p.note ?? null,
+        risk_score: p.score ?? null,
+        scanned_at: p.scanned_at ?? null,
+        window_days: getRiskPolicy(p.program_type).windowDays,
+      })),
+    )
+  } catch (error) {
+    console.error("[discord/risk-status][GET] error:", error)
+    return NextResponse.json({ error: "Failed to load risk status" }, { status: 500 })
+  }
+}
@@ -0,0 +1,29 @@
+import type { NextRequest } from "next/server"
+import { handleApiError, successResponse, ApiError } from "@/lib/api-helpers"
+import { requireRole } from "@/lib/auth"
+import { recordAuditEvent, userActor } from "@/lib/audit"
+import { trashMilestone } from "@/lib/project-trash"
+
+// DELETE /api/milestones/:id → move the milestone to the trash (lib/project-trash.ts); purge it from /admin/trash
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireRole("admin")
+    const milestoneId = Number.parseInt(params.id)
+    if (!Number.isFinite(milestoneId)) throw new ApiError(400, "Invalid milestone id")
+
+    const trashed = await trashMilestone(milestoneId, user.discord_id)
+    if (!trashed) throw new ApiError(404, "Milestone not found")
+    await recordAuditEvent({
+      actor: userActor(user),
+      action: "milestone.delete",
+      entityType: "milestone",
+      entityId: milestoneId,
+      projectId: trashed.project_id,
+      before: { deleted_at: null, deleted_by: null },
+      after: { deleted_at: trashed.deleted_at, deleted_by: trashed.deleted_by },
+    })
+    return successResponse({ id: milestoneId, deleted_at: trashed.deleted_at })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
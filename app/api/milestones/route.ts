@@ -1,14 +1,10 @@
 import type { NextRequest } from "next/server"
 import { sql } from "@/lib/db"
 import type { Milestone } from "@/lib/db"
-import {
-  handleApiError,
-  validateRequired,
-  validateNumber,
-  validateStringLength,
-  validateDate,
-  successResponse,
-} from "@/lib/api-helpers"
+import { ApiError, handleApiError, parseInput, validateNumber, successResponse } from "@/lib/api-helpers"
+import { milestoneCreateSchema } from "@/lib/schemas"
+import { requireRole } from "@/lib/auth"
+import { recordAuditEvent, userActor } from "@/lib/audit"
 
 export async function GET(request: NextRequest) {
   try {
@@ -23,11 +19,15 @@ export async function GET(request: NextRequest) {
       milestones = (await sql`
         SELECT * FROM milestones 
         WHERE project_id = ${validProjectId}
+          AND deleted_at IS NULL
+          AND project_id IN (SELECT id FROM projects WHERE deleted_at IS NULL)
         ORDER BY ordinal ASC, created_at ASC
       `) as Milestone[]
     } else {
       milestones = (await sql`
         SELECT * FROM milestones 
+        WHERE deleted_at IS NULL
+          AND project_id IN (SELECT id FROM projects WHERE deleted_at IS NULL)
         ORDER BY ordinal ASC, created_at ASC
       `) as Milestone[]
     }
@@ -40,18 +40,15 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await requireRole("admin")
     const body = await request.json()
-    const { project_id, title, description, due_date, status, budget, ordinal } = body
-
-    validateRequired({ project_id, title, due_date })
-    validateNumber(project_id, "project_id", { min: 1 })
-    validateStringLength(title, "title", 255)
-    validateStringLength(description, "description", 5000)
-    validateDate(due_date, "due_date")
+    const { project_id, title, description, due_date, status, budget, ordinal } = parseInput(
+      milestoneCreateSchema,
+      body,
+    )
 
-    if (budget !== null && budget !== undefined) {
-      validateNumber(budget, "budget", { min: 0 })
-    }
+    const [project] = await sql/*sql*/`SELECT id FROM projects WHERE id = ${project_id} AND deleted_at IS NULL`
+    if (!project) throw new ApiError(404, "Project not found")
 
     const finalOrdinal =
       ordinal ||
@@ -70,15 +67,24 @@ export async function POST(request: NextRequest) {
       VALUES (
         ${project_id}, 
         ${title}, 
-        ${description}, 
+        ${description ?? null}, 
         ${due_date}, 
-        ${status || "pending"}, 
-        ${budget}, 
+        ${status}, 
+        ${budget ?? null}, 
         ${finalOrdinal}
       )
       RETURNING *
     `) as Milestone[]
 
+    await recordAuditEvent({
+      actor: userActor(user),
+      action: "milestone.create",
+      entityType: "milestone",
+      entityId: milestone!.id,
+      projectId: milestone!.project_id,
+      after: milestone,
+    })
+
     return successResponse(milestone, 201)
   } catch (error) {
     return handleApiError(error)
@@ -1,6 +1,10 @@
 // app/api/projects/[id]/activity/route.ts
 import { type NextRequest, NextResponse } from "next/server"
 import { sql } from "@/lib/db"
+import { insertActivityLog, isActivitySource, touchProjectActivity } from "@/lib/activity-logs"
+import { ApiError } from "@/lib/api-helpers"
+import { requireRole } from "@/lib/auth"
+import { recordAuditEvent, userActor } from "@/lib/audit"
 
 function asInt(v: string | null, def = 50) {
   const n = v ? Number.parseInt(v) : def
@@ -31,7 +35,7 @@ export async function GET(req: NextRequest, { params }: { params: { id: string }
         al.timestamp
       FROM activity_logs al
       JOIN projects p ON p.id = al.project_id
-      WHERE al.project_id = ${projectId}
+      WHERE al.project_id = ${projectId} AND p.deleted_at IS NULL
       ORDER BY al.timestamp DESC
       LIMIT ${limit}
     `
@@ -64,39 +68,44 @@ export async function GET(req: NextRequest, { params }: { params: { id: string }
 // Body: { title: string, description?: string, author?: string, source?: 'discord'|'manual'|'github' }
 export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
   try {
+    const user = await requireRole("admin")
     const projectId = Number.parseInt(params.id)
     if (!Number.isFinite(projectId)) {
       return NextResponse.json({ error: "Invalid project id" }, { status: 400 })
     }
 
-    const { title, description = "", author = null, source = "manual" } = await req.json()
+    const { title, description = "", author = user.name, source = "manual" } = await req.json()
 
     if (!title || typeof title !== "string") {
       return NextResponse.json({ error: "Title is required" }, { status: 400 })
     }
+    if (!isActivitySource(source)) {
+      return NextResponse.json({ error: "Invalid source" }, { status: 400 })
+    }
 
     // Ensure project exists
-    const [p] = await sql/*sql*/`SELECT id FROM projects WHERE id = ${projectId}`
+    const [p] = await sql/*sql*/`SELECT id FROM projects WHERE id = ${projectId} AND deleted_at IS NULL`
     if (!p) return NextResponse.json({ error: "Project not found" }, { status: 404 })
 
-    const [row] = await sql/*sql*/`
-      INSERT INTO activity_logs
-        (project_id, activity_type, source, title, description, url, author, metadata)
-      VALUES
-        (${projectId}, 'progress_update', ${source}, ${title}, ${description}, NULL, ${author}, '{}')
-      RETURNING id, project_id, activity_type, source, title, description, url, author, timestamp
-    `
+    const row = await insertActivityLog({
+      projectId,
+      activityType: "progress_update",
+      source,
+      title,
+      description,
+      author,
+    })
 
     // touch project's last_activity_at
-    await sql/*sql*/`
-      UPDATE projects
-      SET last_activity_at = now(), updated_at = now()
-      WHERE id = ${projectId}
-    `
-
-    if (!row) {
-      return NextResponse.json({ error: "Failed to create activity log entry" }, { status: 500 })
-    }
+    await touchProjectActivity(projectId)
+    await recordAuditEvent({
+      actor: userActor(user),
+      action: "activity.create",
+      entityType: "activity_log",
+      entityId: row.id,
+      projectId,
+      after: row,
+    })
 
     return NextResponse.json({
       id: row.id,
@@ -110,6 +119,9 @@ export async function POST(req: NextRequest, { params }: { params: { id: string
       link: `/individual-project?id=${row.project_id}`,
     }, { status: 201 })
   } catch (error: any) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
     console.error("Error creating project activity:", error)
     return NextResponse.json({ error: "Failed to create project activity" }, { status: 500 })
   }
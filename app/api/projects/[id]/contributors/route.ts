@@ -0,0 +1,20 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getProjectContributors } from "@/lib/contributors"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/projects/:id/contributors
+// → { contributors: GitHub authors with commit/PR/review counts and their Discord identity, grantee_commit_share }
+export async function GET(_req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const projectId = Number.parseInt(params.id)
+    if (!Number.isFinite(projectId)) {
+      return NextResponse.json({ error: "Invalid project id" }, { status: 400 })
+    }
+
+    return NextResponse.json(await getProjectContributors(projectId))
+  } catch (error) {
+    console.error("[contributors][GET] error:", error)
+    return NextResponse.json({ error: "Failed to fetch contributors" }, { status: 500 })
+  }
+}
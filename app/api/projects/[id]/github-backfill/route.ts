@@ -0,0 +1,69 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { sql } from "@/lib/db"
+import { listGitHubBackfills, queueGitHubBackfills, runGitHubBackfill } from "@/lib/github-backfill"
+import { ApiError } from "@/lib/api-helpers"
+import { requireApiToken } from "@/lib/api-tokens"
+import { recordAuditEvent, tokenActor } from "@/lib/audit"
+
+export const dynamic = "force-dynamic"
+export const maxDuration = 300
+
+// GET /api/projects/:id/github-backfill → import status for each of the project's linked repos
+export async function GET(_req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const projectId = Number.parseInt(params.id)
+    if (!Number.isFinite(projectId)) {
+      return NextResponse.json({ error: "Invalid project id" }, { status: 400 })
+    }
+
+    return NextResponse.json(await listGitHubBackfills(projectId))
+  } catch (error) {
+    console.error("[github-backfill][GET] error:", error)
+    return NextResponse.json({ error: "Failed to fetch GitHub backfill" }, { status: 500 })
+  }
+}
+
+// POST /api/projects/:id/github-backfill → run one capped import pass per linked repo now (scan:run token)
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const apiToken = await requireApiToken(req, "scan:run")
+
+    const projectId = Number.parseInt(params.id)
+    if (!Number.isFinite(projectId)) {
+      return NextResponse.json({ error: "Invalid project id" }, { status: 400 })
+    }
+
+    const [project] = await sql/*sql*/`SELECT id FROM projects WHERE id = ${projectId} AND deleted_at IS NULL`
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 })
+    }
+
+    await queueGitHubBackfills(projectId)
+    const backfills = await listGitHubBackfills(projectId)
+    if (backfills.length === 0) {
+      return NextResponse.json({ error: "Project has no linked GitHub repositories" }, { status: 400 })
+    }
+
+    const results = []
+    for (const b of backfills) {
+      if (b.status === "completed") continue
+      const { imported, skipped } = await runGitHubBackfill(projectId, b.repo)
+      results.push({ repo: b.repo, imported, skipped })
+    }
+    await recordAuditEvent({
+      actor: tokenActor(apiToken),
+      action: "github_backfill.run",
+      entityType: "project",
+      entityId: projectId,
+      projectId,
+      metadata: { results },
+    })
+    return NextResponse.json({ results, backfills: await listGitHubBackfills(projectId) })
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
+    console.error("[github-backfill][POST] error:", error)
+    return NextResponse.json({ error: "Failed to run GitHub backfill" }, { status: 500 })
+  }
+}
@@ -1,6 +1,13 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { sql } from "@/lib/db"
-import { config } from "@/configs/config"
+import { insertActivityLog, touchProjectActivity } from "@/lib/activity-logs"
+import { ApiError, handleApiError, parseInput } from "@/lib/api-helpers"
+import { milestoneInputSchema } from "@/lib/schemas"
+import { milestoneTransitionError } from "@/lib/status-transitions"
+import { requireRole } from "@/lib/auth"
+import { authorizeProjectAction } from "@/lib/staff"
+import { requireApiToken } from "@/lib/api-tokens"
+import { recordAuditEvent, tokenActor, userActor } from "@/lib/audit"
 
 export async function GET(_req: NextRequest, { params }: { params: { id: string } }) {
   try {
@@ -9,6 +16,8 @@ export async function GET(_req: NextRequest, { params }: { params: { id: string
     const milestones = await sql`
       SELECT * FROM milestones 
       WHERE project_id = ${projectId}
+        AND deleted_at IS NULL
+        AND project_id IN (SELECT id FROM projects WHERE deleted_at IS NULL)
       ORDER BY ordinal ASC, created_at ASC
     `
 
@@ -20,26 +29,43 @@ export async function GET(_req: NextRequest, { params }: { params: { id: string
 
 export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
   try {
+    const user = await requireRole("admin")
     const projectId = Number.parseInt(params.id)
+    if (!Number.isFinite(projectId)) throw new ApiError(400, "Invalid project id")
     const body = await request.json()
-    const { title, description, due_date, status = "planning", budget } = body
+    const { title, description, due_date, status, budget, ordinal } = parseInput(milestoneInputSchema, body)
+
+    const [project] = await sql/*sql*/`SELECT id FROM projects WHERE id = ${projectId} AND deleted_at IS NULL`
+    if (!project) throw new ApiError(404, "Project not found")
 
     const [milestone] = await sql`
       INSERT INTO milestones (project_id, title, description, due_date, status, budget, ordinal)
       VALUES (
         ${projectId}, 
         ${title}, 
-        ${description}, 
+        ${description ?? null}, 
         ${due_date}, 
         ${status}, 
-        ${budget}, 
-        (SELECT COALESCE(MAX(ordinal), 0) + 1 FROM milestones WHERE project_id = ${projectId})
+        ${budget ?? null}, 
+        COALESCE(${ordinal ?? null}, (SELECT COALESCE(MAX(ordinal), 0) + 1 FROM milestones WHERE project_id = ${projectId}))
       )
       RETURNING *
     `
 
+    await recordAuditEvent({
+      actor: userActor(user),
+      action: "milestone.create",
+      entityType: "milestone",
+      entityId: milestone!.id,
+      projectId,
+      after: milestone,
+    })
+
     return NextResponse.json(milestone)
   } catch (error) {
+    if (error instanceof ApiError) {
+      return handleApiError(error)
+    }
     return NextResponse.json({ error: "Failed to create milestone" }, { status: 500 })
   }
 }
@@ -48,17 +74,14 @@ export async function POST(request: NextRequest, { params }: { params: { id: str
  * PATCH (Discord)
  * If `milestone_id` omitted, we resolve the "active" milestone:
  * - definition: most recently created non-completed (status != 'completed')
- * Only allow status change to 'completed' via Discord (per your rule).
- * Enforce assignee ownership (or admin via DISCORD_ADMIN_USER_IDS by calling /activity-logs directly if desired).
+ * Only allow status change to 'completed' via Discord (per your rule), from a status that allows it
+ * (lib/status-transitions.ts).
+ * Enforce assignee ownership, or an admin/reviewer from the staff registry (lib/staff.ts);
+ * the decision is audit-logged.
  */
 export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
   try {
-    const auth = request.headers.get("authorization") || ""
-    const token = auth.startsWith("Bearer ") ? auth.slice("Bearer ".length) : ""
-
-    if (!config.serviceBotToken || token !== config.serviceBotToken) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-    }
+    const apiToken = await requireApiToken(request, "milestones:complete")
 
     const projectId = Number.parseInt(params.id)
     const body = await request.json()
@@ -73,12 +96,16 @@ export async function PATCH(request: NextRequest, { params }: { params: { id: st
     } = body
 
     // Check assignment first
-    const [p] = await sql /*sql*/`SELECT id, assignee_discord_id FROM projects WHERE id=${projectId}`
+    const [p] = await sql /*sql*/`SELECT id, assignee_discord_id FROM projects WHERE id=${projectId} AND deleted_at IS NULL`
 
     if (!p) {
       return NextResponse.json({ error: "Project not found" }, { status: 404 })
     }
-    if (!callerDiscordId || callerDiscordId !== p.assignee_discord_id) {
+    const decision = await authorizeProjectAction("milestone:complete", callerDiscordId, {
+      id: p.id,
+      assignee_discord_id: p.assignee_discord_id,
+    })
+    if (!decision.allowed) {
       return NextResponse.json({ error: "Forbidden: project not assigned to you" }, { status: 403 })
     }
 
@@ -93,14 +120,14 @@ export async function PATCH(request: NextRequest, { params }: { params: { id: st
     // Resolve milestone
     let target: any
     if (milestone_id) {
-      ;[target] = await sql`SELECT * FROM milestones WHERE id=${milestone_id} AND project_id=${projectId}`
+      ;[target] = await sql`SELECT * FROM milestones WHERE id=${milestone_id} AND project_id=${projectId} AND deleted_at IS NULL`
       if (!target) {
         return NextResponse.json({ error: "Milestone not found for this project" }, { status: 404 })
       }
     } else {
       const rows = await sql /*sql*/`
         SELECT * FROM milestones
-        WHERE project_id=${projectId} AND status != 'completed'
+        WHERE project_id=${projectId} AND status != 'completed' AND deleted_at IS NULL
         ORDER BY created_at DESC
         LIMIT 1
       `
@@ -110,35 +137,51 @@ export async function PATCH(request: NextRequest, { params }: { params: { id: st
       }
     }
 
+    // e.g. a milestone_id that is already completed
+    const transitionError = milestoneTransitionError(target.status, "completed")
+    if (transitionError) {
+      return NextResponse.json({ error: transitionError }, { status: 409 })
+    }
+
     const [updated] = await sql`
       UPDATE milestones
       SET status = 'completed',
           completion_date = NOW(),
           updated_at = NOW()
-      WHERE id = ${target.id} AND project_id = ${projectId}
+      WHERE id = ${target.id} AND project_id = ${projectId} AND deleted_at IS NULL
       RETURNING *
     `
+    // Trashed between the lookup and the update
+    if (!updated) {
+      return NextResponse.json({ error: "Milestone not found for this project" }, { status: 404 })
+    }
 
-    await sql /*sql*/`
-      INSERT INTO activity_logs(
-        project_id, activity_type, source, title, description, url, author, metadata, timestamp
-      )
-      VALUES(
-        ${projectId},
-        ${"milestone_completed"},
-        ${"discord"},
-        ${`Milestone ${target.ordinal ?? ""} "${target.title}" marked completed`},
-        ${"Completed via Discord"},
-        ${null},
-        ${callerDiscordId || null},
-        ${JSON.stringify({ milestone_id: target.id, status: "completed", callerDiscordId })},
-        NOW()
-      )
-    `
-    await sql /*sql*/`UPDATE projects SET last_activity_at = NOW(), updated_at = NOW() WHERE id = ${projectId}`
+    await insertActivityLog({
+      projectId,
+      activityType: "milestone_completed",
+      source: "discord",
+      title: `Milestone ${target.ordinal ?? ""} "${target.title}" marked completed`,
+      description: "Completed via Discord",
+      author: callerDiscordId || null,
+      metadata: { milestone_id: target.id, status: "completed", callerDiscordId, granted_as: decision.grantedAs },
+    })
+    await touchProjectActivity(projectId)
+    await recordAuditEvent({
+      actor: tokenActor(apiToken, callerDiscordId),
+      action: "milestone.complete",
+      entityType: "milestone",
+      entityId: target.id,
+      projectId,
+      before: target,
+      after: updated,
+      metadata: { via: "discord", token: apiToken.name, granted_as: decision.grantedAs },
+    })
 
     return NextResponse.json(updated)
   } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
     return NextResponse.json({ error: "Failed to update milestone" }, { status: 500 })
   }
 }
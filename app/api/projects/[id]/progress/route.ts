@@ -1,23 +1,23 @@
 // app/api/projects/[id]/progress/route.ts
 import { NextResponse, type NextRequest } from "next/server"
 import { sql } from "@/lib/db"
-import { config } from "@/configs/config"
+import { insertActivityLog, touchProjectActivity } from "@/lib/activity-logs"
+import { authorizeProjectAction } from "@/lib/staff"
+import { ApiError } from "@/lib/api-helpers"
+import { requireApiToken } from "@/lib/api-tokens"
+import { recordAuditEvent, tokenActor } from "@/lib/audit"
 
 /**
  * POST /api/projects/:id/progress
  * Body: { title: string, description?: string, callerDiscordId?: string }
- * Auth: Bearer SERVICE_BOT_TOKEN
+ * Auth: Bearer API token with the activity:write scope
  * Rules:
- *  - Only the assignee (or an admin) can post a recent update.
+ *  - Only the assignee or a registered admin (lib/staff.ts) can post a recent update; the decision is audit-logged.
  *  - Writes a row to activity_logs; does NOT update project name/description.
  */
 export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
     try {
-        const auth = req.headers.get("authorization") || ""
-        const token = auth.startsWith("Bearer ") ? auth.slice("Bearer ".length) : ""
-        if (!config.serviceBotToken || token !== config.serviceBotToken) {
-            return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
-        }
+        const apiToken = await requireApiToken(req, "activity:write")
 
         const projectId = Number.parseInt(params.id)
         const { title, description = "", callerDiscordId } = await req.json()
@@ -26,7 +26,7 @@ export async function POST(req: NextRequest, { params }: { params: { id: string
         const [p] = await sql/*sql*/`
       SELECT id, name, assignee_discord_id
       FROM projects
-      WHERE id = ${projectId}
+      WHERE id = ${projectId} AND deleted_at IS NULL
       LIMIT 1
     `
         if (!p) {
@@ -34,40 +34,42 @@ export async function POST(req: NextRequest, { params }: { params: { id: string
         }
 
         // Permission: assignee or admin
-        const isAdmin = callerDiscordId
-        if (!isAdmin) {
-            if (!callerDiscordId || callerDiscordId !== p.assignee_discord_id) {
-                return NextResponse.json({ error: "Forbidden: project not assigned to you" }, { status: 403 })
-            }
+        const decision = await authorizeProjectAction("progress:post", callerDiscordId, {
+            id: p.id,
+            assignee_discord_id: p.assignee_discord_id,
+        })
+        if (!decision.allowed) {
+            return NextResponse.json({ error: "Forbidden: project not assigned to you" }, { status: 403 })
         }
 
         // Insert recent update -> activity_logs
-        await sql/*sql*/`
-      INSERT INTO activity_logs(
-        project_id, activity_type, source, title, description, url, author, metadata, timestamp
-      ) VALUES (
-        ${projectId},
-        ${"discord_update"},
-        ${"discord"},
-        ${title},
-        ${description},
-        ${null},
-        ${callerDiscordId || null},
-        ${JSON.stringify({ callerDiscordId, via: "discord-commander" })},
-        NOW()
-      )
-    `
+        const activity = await insertActivityLog({
+            projectId,
+            activityType: "discord_update",
+            source: "discord",
+            title,
+            description,
+            author: callerDiscordId || null,
+            metadata: { callerDiscordId, granted_as: decision.grantedAs, via: "discord-commander" },
+        })
 
         // Touch last_activity_at only
-        await sql/*sql*/`
-      UPDATE projects
-      SET last_activity_at = NOW(),
-          updated_at = NOW()
-      WHERE id = ${projectId}
-    `
+        await touchProjectActivity(projectId)
+        await recordAuditEvent({
+            actor: tokenActor(apiToken, callerDiscordId),
+            action: "activity.create",
+            entityType: "activity_log",
+            entityId: activity.id,
+            projectId,
+            after: activity,
+            metadata: { via: "discord", token: apiToken.name, granted_as: decision.grantedAs },
+        })
 
         return NextResponse.json({ ok: true })
     } catch (e: any) {
+        if (e instanceof ApiError) {
+            return NextResponse.json({ error: e.message }, { status: e.statusCode })
+        }
         console.error("[progress][POST] error:", e)
         return NextResponse.json({ error: "Failed to post progress" }, { status: 500 })
     }
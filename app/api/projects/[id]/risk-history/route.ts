@@ -0,0 +1,23 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getProjectRiskHistory } from "@/lib/risk-scans"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/projects/:id/risk-history?limit=180
+// → { history: results oldest → newest, transitions: each point the status changed }
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const projectId = Number.parseInt(params.id)
+    if (!Number.isFinite(projectId)) {
+      return NextResponse.json({ error: "Invalid project id" }, { status: 400 })
+    }
+
+    const limitParam = Number.parseInt(req.nextUrl.searchParams.get("limit") || "180")
+    const limit = Number.isFinite(limitParam) && limitParam > 0 ? Math.min(limitParam, 1000) : 180
+
+    return NextResponse.json(await getProjectRiskHistory(projectId, limit))
+  } catch (error) {
+    console.error("[risk-history][GET] error:", error)
+    return NextResponse.json({ error: "Failed to fetch risk history" }, { status: 500 })
+  }
+}
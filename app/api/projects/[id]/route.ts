@@ -1,7 +1,17 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { sql } from "@/lib/db"
+import { latestRiskResultJoin } from "@/lib/risk-scans"
 import type { Project } from "@/lib/db"
 import { parseDurationToEndDate } from "@/lib/utils"
+import { queueGitHubBackfills } from "@/lib/github-backfill"
+import { listProjectRepositories, parseRepositoryInput, setProjectRepositories } from "@/lib/project-repositories"
+import { ApiError, handleApiError } from "@/lib/api-helpers"
+import { requireRole } from "@/lib/auth"
+import { recordAuditEvent, userActor } from "@/lib/audit"
+import { resolveDiscordUserIdByUsername } from "@/lib/discord"
+import { parseProjectInput, updateProjectFields } from "@/lib/project-fields"
+import { trashProject } from "@/lib/project-trash"
+import { projectTransitionError } from "@/lib/status-transitions"
 
 export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
   try {
@@ -15,11 +25,21 @@ export async function GET(request: NextRequest, { params }: { params: { id: stri
         CASE 
           WHEN COUNT(m.id) = 0 THEN 0
           ELSE ROUND((COUNT(CASE WHEN m.status = 'completed' THEN 1 END)::numeric / COUNT(m.id)::numeric) * 100, 2)
-        END as progress_percentage
+        END as progress_percentage,
+        latest.final as risk_status,
+        latest.note as risk_note,
+        latest.score as risk_score,
+        latest.factors as risk_factors,
+        (
+          SELECT COALESCE(json_agg(r ORDER BY r.position, r.id), '[]'::json)
+          FROM project_repositories r
+          WHERE r.project_id = p.id
+        ) as repositories
       FROM projects p
-      LEFT JOIN milestones m ON p.id = m.project_id
-      WHERE p.id = ${projectId}
-      GROUP BY p.id
+      LEFT JOIN milestones m ON p.id = m.project_id AND m.deleted_at IS NULL
+      ${latestRiskResultJoin()}
+      WHERE p.id = ${projectId} AND p.deleted_at IS NULL
+      GROUP BY p.id, latest.final, latest.note, latest.score, latest.factors
     `
 
     if (!project) {
@@ -32,49 +52,119 @@ export async function GET(request: NextRequest, { params }: { params: { id: stri
   }
 }
 
+/**
+ * PUT /api/projects/:id → validated as a whole project (a name is required), but like PATCH only the fields the
+ * client sent are written; omitted fields, status included, keep their values.
+ */
 export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  return updateProject(request, params.id, { requireName: true })
+}
+
+/**
+ * PATCH /api/projects/:id → update only the fields present in the body, validated by the shared project schema.
+ * Sending `repositories` (or github_repo) replaces the linked repos; changing creator_username re-resolves the
+ * Discord assignee; changing start_date or duration, or clearing end_date, recomputes the end date.
+ * A status change outside lib/status-transitions.ts is a 409.
+ */
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  return updateProject(request, params.id, { requireName: false })
+}
+
+async function updateProject(request: NextRequest, id: string, { requireName }: { requireName: boolean }) {
   try {
-    const projectId = Number.parseInt(params.id)
+    const user = await requireRole("admin")
+    const projectId = Number.parseInt(id)
+    if (!Number.isFinite(projectId)) {
+      return NextResponse.json({ error: "Invalid project id" }, { status: 400 })
+    }
+
     const body = await request.json()
-    const { name, description, status, github_repo, discord_channel, funding_amount, start_date, end_date, duration } =
-      body
-
-    let calculatedEndDate = end_date
-    if (!end_date && duration && start_date) {
-      const parsedEndDate = parseDurationToEndDate(start_date, duration)
-      if (parsedEndDate) {
-        calculatedEndDate = parsedEndDate.toISOString().split("T")[0]
-      }
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+      return NextResponse.json({ error: "Expected a JSON object of fields to update" }, { status: 400 })
     }
+    const fields = parseProjectInput(body, { partial: true, requireName })
+    const repos =
+      "repositories" in body || "github_repo" in body
+        ? parseRepositoryInput(body.repositories, body.repositories === undefined ? body.github_repo : null)
+        : null
 
-    const [project] = (await sql`
-      UPDATE projects 
-      SET name = ${name}, description = ${description}, status = ${status}, 
-          github_repo = ${github_repo}, discord_channel = ${discord_channel}, 
-          funding_amount = ${funding_amount}, start_date = ${start_date}, 
-          end_date = ${calculatedEndDate}, duration = ${duration}, updated_at = NOW()
-      WHERE id = ${projectId}
-      RETURNING *
+    const [before] = (await sql/*sql*/`
+      SELECT * FROM projects WHERE id = ${projectId} AND deleted_at IS NULL
     `) as Project[]
+    if (!before) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 })
+    }
+    // Status changes follow lib/status-transitions.ts
+    const transitionError = fields.status && projectTransitionError(before.status, fields.status)
+    if (transitionError) {
+      throw new ApiError(409, transitionError, { status: [transitionError] })
+    }
+    const reposBefore = await listProjectRepositories(projectId)
 
+    // As on create, a missing end date is derived from start_date + duration
+    if (!fields.end_date && ("end_date" in body || "start_date" in body || "duration" in body)) {
+      const startDate = "start_date" in fields ? fields.start_date : before.start_date
+      const duration = "duration" in fields ? fields.duration : before.duration
+      const parsedEndDate = startDate && duration ? parseDurationToEndDate(startDate, duration) : null
+      if (parsedEndDate) fields.end_date = parsedEndDate.toISOString().split("T")[0]
+    }
+    if (repos) fields.github_repo = repos[0]?.repo ?? null
+    if ("creator_username" in fields && fields.creator_username !== (before.creator_username ?? null)) {
+      fields.assignee_discord_id = await resolveDiscordUserIdByUsername(fields.creator_username)
+    }
+
+    const project = await updateProjectFields(projectId, fields)
     if (!project) {
       return NextResponse.json({ error: "Project not found" }, { status: 404 })
     }
 
-    return NextResponse.json(project)
+    const repositories = repos ? await setProjectRepositories(projectId, repos) : reposBefore
+    // Queues history imports for newly linked repos only
+    if (repos) await queueGitHubBackfills(projectId)
+    await recordAuditEvent({
+      actor: userActor(user),
+      action: "project.update",
+      entityType: "project",
+      entityId: projectId,
+      projectId,
+      before: { ...before, repositories: reposBefore.map((r) => r.repo) },
+      after: { ...project, repositories: repositories.map((r) => r.repo) },
+    })
+
+    return NextResponse.json({ ...project, repositories })
   } catch (error) {
+    if (error instanceof ApiError) {
+      return handleApiError(error)
+    }
     return NextResponse.json({ error: "Failed to update project" }, { status: 500 })
   }
 }
 
 export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
   try {
+    const user = await requireRole("admin")
     const projectId = Number.parseInt(params.id)
 
-    await sql`DELETE FROM projects WHERE id = ${projectId}`
+    // Soft delete: the project moves to the trash (lib/project-trash.ts) with its milestones and activity intact
+    const trashed = await trashProject(projectId, user.discord_id)
+    if (!trashed) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 })
+    }
+    await recordAuditEvent({
+      actor: userActor(user),
+      action: "project.delete",
+      entityType: "project",
+      entityId: projectId,
+      projectId,
+      before: { deleted_at: null, deleted_by: null },
+      after: { deleted_at: trashed.deleted_at, deleted_by: trashed.deleted_by },
+    })
 
-    return NextResponse.json({ message: "Project deleted successfully" })
+    return NextResponse.json({ message: "Project moved to trash", deleted_at: trashed.deleted_at })
   } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
     return NextResponse.json({ error: "Failed to delete project" }, { status: 500 })
   }
 }
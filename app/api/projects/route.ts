@@ -1,43 +1,15 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { sql } from "@/lib/db"
+import { latestRiskResultJoin } from "@/lib/risk-scans"
 import type { Project } from "@/lib/types"
 import { parseDurationToEndDate } from "@/lib/utils"
-import { config } from "@/configs/config"
-import { handleApiError, validateStringLength, validateEmail } from "@/lib/api-helpers"
-
-/** === Discord guild-member lookup from creator_username === */
-
-async function resolveDiscordUserIdFromUsername(username?: string) {
-  if (!username || !config.discordBotToken || !config.guildId) return null
-  try {
-    const q = encodeURIComponent(username.trim())
-    const resp = await fetch(`https://discord.com/api/v10/guilds/${config.guildId}/members/search?query=${q}&limit=5`, {
-      headers: { Authorization: `Bot ${config.discordBotToken}` },
-      cache: "no-store",
-    })
-    if (!resp.ok) {
-      return null
-    }
-    const members = (await resp.json()) as Array<{
-      user: { id: string; username?: string; global_name?: string }
-      nick?: string
-    }>
-    if (!Array.isArray(members) || members.length === 0) return null
-
-    const lc = username.toLowerCase()
-    const match =
-      members.find(
-        (m) =>
-          (m.user?.username && m.user.username.toLowerCase() === lc) ||
-          (m.user?.global_name && m.user.global_name.toLowerCase() === lc) ||
-          (m.nick && m.nick.toLowerCase() === lc),
-      ) || members[0]
-
-    return match?.user?.id ?? null
-  } catch (e) {
-    return null
-  }
-}
+import { handleApiError } from "@/lib/api-helpers"
+import { requireRole } from "@/lib/auth"
+import { resolveDiscordUserIdByUsername } from "@/lib/discord"
+import { recordAuditEvent, userActor } from "@/lib/audit"
+import { queueGitHubBackfills } from "@/lib/github-backfill"
+import { parseProjectInput } from "@/lib/project-fields"
+import { parseRepositoryInput, setProjectRepositories } from "@/lib/project-repositories"
 
 export async function GET() {
   try {
@@ -55,12 +27,24 @@ export async function GET() {
           FROM milestones 
           WHERE project_id = p.id 
             AND status != 'completed'
+            AND deleted_at IS NULL
           ORDER BY created_at DESC 
           LIMIT 1
-        ) as active_milestone_status
+        ) as active_milestone_status,
+        latest.final as risk_status,
+        latest.note as risk_note,
+        latest.score as risk_score,
+        latest.factors as risk_factors,
+        (
+          SELECT COALESCE(json_agg(r ORDER BY r.position, r.id), '[]'::json)
+          FROM project_repositories r
+          WHERE r.project_id = p.id
+        ) as repositories
       FROM projects p
-      LEFT JOIN milestones m ON p.id = m.project_id
-      GROUP BY p.id
+      LEFT JOIN milestones m ON p.id = m.project_id AND m.deleted_at IS NULL
+      ${latestRiskResultJoin()}
+      WHERE p.deleted_at IS NULL
+      GROUP BY p.id, latest.final, latest.note, latest.score, latest.factors
       ORDER BY p.created_at DESC
     `
     return NextResponse.json(projects)
@@ -71,83 +55,23 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await requireRole("admin")
     const body = await request.json()
-    const {
-      name,
-      description,
-      status,
-      github_repo,
-      proposal_link,
-      discord_channel,
-      funding_amount,
-      start_date,
-      end_date,
-      creator_username,
-      grantee_email,
-      category,
-      program_type,
-      mission_expertise,
-      campaign_goals,
-      creator_stat_1_name,
-      creator_stat_1_number,
-      creator_stat_2_name,
-      creator_stat_2_number,
-      youtube_link,
-      tiktok_link,
-      twitter_link,
-      twitch_link,
-      website_links,
-      duration,
-    } = body
-
-    validateStringLength(name, "name", 255)
-    validateStringLength(github_repo, "github_repo", 255)
-    validateStringLength(discord_channel, "discord_channel", 255)
-    validateStringLength(creator_username, "creator_username", 255)
-    validateEmail(grantee_email, "grantee_email")
-    validateStringLength(creator_stat_1_name, "creator_stat_1_name", 255)
-    validateStringLength(creator_stat_2_name, "creator_stat_2_name", 255)
-    validateStringLength(category, "category", 100)
-    validateStringLength(program_type, "program_type", 100)
-    validateStringLength(duration, "duration", 100)
-    validateStringLength(youtube_link, "youtube_link", 500)
-    validateStringLength(tiktok_link, "tiktok_link", 500)
-    validateStringLength(twitter_link, "twitter_link", 500)
-    validateStringLength(twitch_link, "twitch_link", 500)
+    const fields = parseProjectInput(body, { partial: false })
 
-    // Safe coercions
-    const safeName = name ? name.substring(0, 255) : null
-    const safeGithubRepo = github_repo ? github_repo.substring(0, 255) : null
-    const safeDiscordChannel = discord_channel ? discord_channel.substring(0, 255) : null
-    const safeCreatorUsername = creator_username ? creator_username.substring(0, 255) : null
-    const safeGranteeEmail = grantee_email ? grantee_email.substring(0, 255) : null
-    const safeCreatorStat1Name = creator_stat_1_name ? creator_stat_1_name.substring(0, 255) : null
-    const safeCreatorStat2Name = creator_stat_2_name ? creator_stat_2_name.substring(0, 255) : null
-    const safeCategory = category ? category.substring(0, 100) : null
-    const safeProgramType = program_type ? program_type.substring(0, 100) : null
-    const safeDuration = duration ? duration.substring(0, 100) : null
-
-    const safeCreatorStat1 =
-      creator_stat_1_number != null
-        ? Math.min(Math.max(Number.parseInt(creator_stat_1_number), -2147483648), 2147483647)
-        : null
-    const safeCreatorStat2 =
-      creator_stat_2_number != null
-        ? Math.min(Math.max(Number.parseInt(creator_stat_2_number), -2147483648), 2147483647)
-        : null
-    const safeFundingAmount = funding_amount != null ? Number.parseFloat(funding_amount) : null
+    // `repositories` ([{ repo, label }]) links several repos; a lone github_repo is still accepted
+    const repos = parseRepositoryInput(body.repositories, body.github_repo)
 
     // End date from duration if missing
-    let calculatedEndDate = end_date
-    if (!end_date && safeDuration && start_date) {
-      const parsedEndDate = parseDurationToEndDate(start_date, safeDuration)
-      if (parsedEndDate) calculatedEndDate = parsedEndDate.toISOString().split("T")[0]
+    if (!fields.end_date && fields.duration && fields.start_date) {
+      const parsedEndDate = parseDurationToEndDate(fields.start_date, fields.duration)
+      if (parsedEndDate) fields.end_date = parsedEndDate.toISOString().split("T")[0]
     }
 
     // Insert project
     const [project] = (await sql`
       INSERT INTO projects (
-        name, description, status, github_repo, proposal_link, discord_channel,
+        name, description, status, github_repo, proposal_link, discord_channel, discord_ingest_opt_out,
         funding_amount, start_date, end_date,
         creator_username, grantee_email, category, program_type,
         project_background, mission_expertise, campaign_goals,
@@ -156,39 +80,40 @@ export async function POST(request: NextRequest) {
         website_links, duration
       )
       VALUES (
-        ${safeName},
-        ${description},
-        ${status || "active"},
-        ${safeGithubRepo},
-        ${proposal_link},
-        ${safeDiscordChannel},
-        ${safeFundingAmount},
-        ${start_date},
-        ${calculatedEndDate},
-        ${safeCreatorUsername},
-        ${safeGranteeEmail},
-        ${safeCategory},
-        ${safeProgramType},
-        ${description},
-        ${mission_expertise},
-        ${campaign_goals},
-        ${safeCreatorStat1Name},
-        ${safeCreatorStat1},
-        ${safeCreatorStat2Name},
-        ${safeCreatorStat2},
-        ${youtube_link},
-        ${tiktok_link},
-        ${twitter_link},
-        ${twitch_link},
-        ${website_links},
-        ${safeDuration}
+        ${fields.name},
+        ${fields.description},
+        ${fields.status},
+        ${repos[0]?.repo ?? null},
+        ${fields.proposal_link},
+        ${fields.discord_channel},
+        ${fields.discord_ingest_opt_out},
+        ${fields.funding_amount},
+        ${fields.start_date},
+        ${fields.end_date},
+        ${fields.creator_username},
+        ${fields.grantee_email},
+        ${fields.category},
+        ${fields.program_type},
+        ${fields.project_background},
+        ${fields.mission_expertise},
+        ${fields.campaign_goals},
+        ${fields.creator_stat_1_name},
+        ${fields.creator_stat_1_number},
+        ${fields.creator_stat_2_name},
+        ${fields.creator_stat_2_number},
+        ${fields.youtube_link},
+        ${fields.tiktok_link},
+        ${fields.twitter_link},
+        ${fields.twitch_link},
+        ${fields.website_links},
+        ${fields.duration}
       )
       RETURNING *
     `) as Project[]
 
     // Resolve Discord ID from username and save it
     if (project?.creator_username) {
-      const userId = await resolveDiscordUserIdFromUsername(project.creator_username)
+      const userId = await resolveDiscordUserIdByUsername(project.creator_username)
       if (userId) {
         await sql /*sql*/`
           UPDATE projects
@@ -199,6 +124,21 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    if (project) {
+      const linked = await setProjectRepositories(project.id, repos)
+      // Import each linked repo's history into activity_logs (see app/api/cron/github-backfill)
+      await queueGitHubBackfills(project.id)
+      await recordAuditEvent({
+        actor: userActor(user),
+        action: "project.create",
+        entityType: "project",
+        entityId: project.id,
+        projectId: project.id,
+        after: { ...project, repositories: linked.map((r) => r.repo) },
+      })
+      return NextResponse.json({ ...project, repositories: linked }, { status: 201 })
+    }
+
     return NextResponse.json(project, { status: 201 })
   } catch (error) {
     return handleApiError(error)
@@ -23,7 +23,8 @@ export async function GET(req: Request) {
         al.timestamp
       FROM activity_logs al
       JOIN projects p ON p.id = al.project_id
-      ${projectId ? sql`WHERE al.project_id = ${projectId}` : sql``}
+      WHERE p.deleted_at IS NULL
+      ${projectId ? sql`AND al.project_id = ${projectId}` : sql``}
       ORDER BY al.timestamp DESC
       LIMIT ${limit}
     `
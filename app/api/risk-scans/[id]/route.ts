@@ -0,0 +1,24 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getRiskScanRun } from "@/lib/risk-scans"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/risk-scans/:id → the run plus every project's result in it
+export async function GET(_req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const runId = Number.parseInt(params.id)
+    if (!Number.isFinite(runId)) {
+      return NextResponse.json({ error: "Invalid run id" }, { status: 400 })
+    }
+
+    const run = await getRiskScanRun(runId)
+    if (!run) {
+      return NextResponse.json({ error: "Risk scan run not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(run)
+  } catch (error) {
+    console.error("[risk-scans/:id][GET] error:", error)
+    return NextResponse.json({ error: "Failed to fetch risk scan run" }, { status: 500 })
+  }
+}
@@ -0,0 +1,17 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { listRiskScanRuns } from "@/lib/risk-scans"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/risk-scans?limit=50 → most recent runs first
+export async function GET(req: NextRequest) {
+  try {
+    const limitParam = Number.parseInt(req.nextUrl.searchParams.get("limit") || "50")
+    const limit = Number.isFinite(limitParam) && limitParam > 0 ? Math.min(limitParam, 200) : 50
+
+    return NextResponse.json(await listRiskScanRuns(limit))
+  } catch (error) {
+    console.error("[risk-scans][GET] error:", error)
+    return NextResponse.json({ error: "Failed to fetch risk scan runs" }, { status: 500 })
+  }
+}
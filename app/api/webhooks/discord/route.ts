@@ -1,30 +1,75 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { sql } from "@/lib/db"
 import type { DiscordWebhookPayload } from "@/lib/db"
+import { insertActivityLog, touchProjectActivity } from "@/lib/activity-logs"
+import { findProjectsByChannel, isUserMessage, resolveThreadParent } from "@/lib/discord"
+import { recordWebhookDelivery } from "@/lib/webhooks"
+import { ApiError } from "@/lib/api-helpers"
+import { requireApiToken } from "@/lib/api-tokens"
 
+/**
+ * Channel messages relayed by the bot's gateway listener (scripts/discord-commander.ts).
+ * Auth: Bearer API token with the activity:write scope — the rows written here count as project activity
+ */
 export async function POST(request: NextRequest) {
   try {
+    await requireApiToken(request, "activity:write")
+
     const payload: DiscordWebhookPayload = await request.json()
 
     // Discord webhook payload structure
     const { content, author, channel_id, id, timestamp, guild_id } = payload
 
-    if (!content || !author) {
+    if (!content || !author || !channel_id) {
       return NextResponse.json({ error: "Invalid Discord webhook payload" }, { status: 400 })
     }
 
+    if (!isUserMessage(payload)) {
+      return NextResponse.json({ success: true, processed: false, reason: "bot_or_system_message" })
+    }
+
+    // Route by channel; thread messages count for the thread's parent channel
+    let projects = await findProjectsByChannel(channel_id)
+    let parentChannelId: string | null = null
+    if (projects.length === 0) {
+      parentChannelId = payload.parent_channel_id || (await resolveThreadParent(channel_id))
+      if (parentChannelId) projects = await findProjectsByChannel(parentChannelId)
+    }
+
+    if (projects.length === 0) {
+      await recordWebhookDelivery({
+        source: "discord",
+        event: "message",
+        status: "unmatched",
+        reason: "no_project_for_channel",
+        payload: { channel_id, parent_channel_id: parentChannelId, message_id: id, guild_id },
+      })
+      return NextResponse.json({ success: true, processed: false, matched: 0 })
+    }
+
     // Create Discord message URL (if guild_id is available)
     const messageUrl =
       guild_id && channel_id && id ? `https://discord.com/channels/${guild_id}/${channel_id}/${id}` : null
 
-    // Insert activity log
-    await sql`
-      INSERT INTO activity_logs (project_id, source, type, content, url, timestamp)
-      VALUES (${1}, ${"discord"}, ${"announcement"}, ${content}, ${messageUrl}, ${new Date(timestamp || Date.now())})
-    `
+    for (const project of projects) {
+      await insertActivityLog({
+        projectId: project.id,
+        activityType: "discord_message",
+        source: "discord",
+        title: content.split("\n")[0],
+        description: content,
+        url: messageUrl,
+        author: author.username,
+        timestamp: timestamp || null,
+        metadata: { channel_id, parent_channel_id: parentChannelId, message_id: id, author_id: author.id },
+      })
+      await touchProjectActivity(project.id)
+    }
 
-    return NextResponse.json({ success: true })
+    return NextResponse.json({ success: true, processed: true, matched: projects.length })
   } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
     console.error("Discord webhook error:", error)
     return NextResponse.json({ error: "Failed to process webhook" }, { status: 500 })
   }
@@ -1,69 +1,280 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { sql } from "@/lib/db"
 import type { GitHubWebhookPayload } from "@/lib/db"
+import { deliveryActivityExists, insertActivityLog, touchProjectActivity } from "@/lib/activity-logs"
+import { branchCounts, findProjectsByRepo, isExcludedAuthor, type RepoActivityFilter } from "@/lib/github"
+import {
+  claimWebhookDelivery,
+  completeWebhookDelivery,
+  recordWebhookDelivery,
+  verifyGitHubSignature,
+} from "@/lib/webhooks"
+
+// ---------- event → activity mapping ----------
+
+type GitHubActivity = {
+  activity_type: string
+  title: string
+  description: string | null
+  url: string | null
+  author: string | null
+  timestamp: string | null
+  metadata: Record<string, unknown>
+  /** Branch the work landed on or targets (null when the event has none); not stored */
+  branch: string | null
+  /** Who authored the work, which for a merge is the PR author rather than the merger; not stored */
+  actors: Array<string | null | undefined>
+}
+
+function firstLine(message: string | null | undefined) {
+  return (message || "").split("\n")[0]?.trim() || ""
+}
+
+function toActivities(event: string | null, payload: GitHubWebhookPayload): GitHubActivity[] {
+  switch (event) {
+    case "push": {
+      // Tag pushes are covered by the "create" event; deleted refs carry no new work
+      if (payload.deleted || payload.ref?.startsWith("refs/tags/")) return []
+      const branch = payload.ref?.replace(/^refs\/heads\//, "") ?? null
+      return (payload.commits ?? [])
+        .filter((c) => c.distinct !== false)
+        .map((c) => ({
+          activity_type: "commit",
+          title: firstLine(c.message) || "Commit",
+          description: c.message,
+          url: c.url,
+          author: c.author?.username || c.author?.name || null,
+          timestamp: c.timestamp,
+          metadata: { sha: c.id, branch },
+          branch,
+          actors: [c.author?.username, c.author?.name],
+        }))
+    }
+
+    case "pull_request": {
+      const pr = payload.pull_request
+      if (!pr) return []
+      const base = {
+        url: pr.html_url,
+        metadata: { pr_number: pr.number, head: pr.head?.ref ?? null, base: pr.base?.ref ?? null },
+        branch: pr.base?.ref ?? null,
+        actors: [pr.user?.login],
+      }
+      if (payload.action === "opened" || payload.action === "reopened") {
+        return [
+          {
+            ...base,
+            activity_type: "pull_request_opened",
+            title: `${payload.action === "opened" ? "Opened" : "Reopened"} PR #${pr.number}: ${pr.title}`,
+            description: null,
+            author: pr.user?.login ?? null,
+            timestamp: payload.action === "opened" ? pr.created_at : null,
+          },
+        ]
+      }
+      if (payload.action === "closed" && pr.merged) {
+        return [
+          {
+            ...base,
+            activity_type: "merge",
+            title: pr.title || `Merged PR #${pr.number}`,
+            description: `PR #${pr.number} merged`,
+            author: pr.merged_by?.login ?? pr.user?.login ?? null,
+            timestamp: pr.merged_at ?? null,
+            metadata: { ...base.metadata, merge_commit_sha: pr.merge_commit_sha ?? null },
+          },
+        ]
+      }
+      if (payload.action === "closed") {
+        return [
+          {
+            ...base,
+            activity_type: "pull_request_closed",
+            title: `Closed PR #${pr.number} without merging: ${pr.title}`,
+            description: null,
+            author: payload.sender?.login ?? null,
+            timestamp: pr.closed_at ?? null,
+          },
+        ]
+      }
+      return []
+    }
+
+    case "pull_request_review": {
+      const pr = payload.pull_request
+      const review = payload.review
+      if (payload.action !== "submitted" || !pr || !review) return []
+      return [
+        {
+          activity_type: "pull_request_review",
+          title: `Review (${review.state.replace(/_/g, " ")}) on PR #${pr.number}: ${pr.title}`,
+          description: review.body || null,
+          url: review.html_url,
+          author: review.user?.login ?? null,
+          timestamp: review.submitted_at ?? null,
+          metadata: { pr_number: pr.number, review_id: review.id, review_state: review.state },
+          branch: pr.base?.ref ?? null,
+          actors: [review.user?.login],
+        },
+      ]
+    }
+
+    case "release": {
+      const release = payload.release
+      if (payload.action !== "published" || !release || release.draft) return []
+      return [
+        {
+          activity_type: "release",
+          title: `Released ${release.name || release.tag_name}`,
+          description: release.body || null,
+          url: release.html_url,
+          author: release.author?.login ?? null,
+          timestamp: release.published_at ?? release.created_at ?? null,
+          metadata: { release_tag: release.tag_name, release_id: release.id, prerelease: !!release.prerelease },
+          branch: null,
+          actors: [release.author?.login],
+        },
+      ]
+    }
+
+    case "create": {
+      if (payload.ref_type !== "tag" || !payload.ref) return []
+      const repoUrl = payload.repository?.html_url
+      return [
+        {
+          activity_type: "tag_created",
+          title: `Created tag ${payload.ref}`,
+          description: null,
+          url: repoUrl ? `${repoUrl}/releases/tag/${encodeURIComponent(payload.ref)}` : null,
+          author: payload.sender?.login ?? null,
+          timestamp: null,
+          metadata: { tag: payload.ref },
+          branch: null,
+          actors: [payload.sender?.login],
+        },
+      ]
+    }
+
+    case "issues": {
+      const issue = payload.issue
+      if (!issue || (payload.action !== "opened" && payload.action !== "closed")) return []
+      return [
+        {
+          activity_type: payload.action === "opened" ? "issue_opened" : "issue_closed",
+          title: `${payload.action === "opened" ? "Opened" : "Closed"} issue: ${issue.title}`,
+          description: null,
+          url: issue.html_url,
+          author: payload.sender?.login ?? issue.user?.login ?? null,
+          timestamp: payload.action === "opened" ? issue.created_at : issue.closed_at ?? null,
+          metadata: { issue_number: issue.number ?? null },
+          branch: null,
+          actors: [payload.sender?.login ?? issue.user?.login],
+        },
+      ]
+    }
+
+    default:
+      return []
+  }
+}
+
+/** Activity on a branch the project tracks, by someone other than a dependency bot or an excluded author */
+function countsForProject(a: GitHubActivity, filter: RepoActivityFilter) {
+  return branchCounts(filter, a.branch) && !isExcludedAuthor(filter, ...a.actors)
+}
 
 export async function POST(request: NextRequest) {
+  let claimedId: number | null = null
   try {
-    const payload: GitHubWebhookPayload = await request.json()
+    const raw = await request.text()
     const event = request.headers.get("x-github-event")
+    const deliveryId = request.headers.get("x-github-delivery")
 
-    let activityData = null
-
-    // Handle different GitHub events
-    switch (event) {
-      case "push":
-        if (payload.commits && payload.commits.length > 0) {
-          const commit = payload.commits[0] // Use the first commit
-          activityData = {
-            project_id: 1, // Placeholder - map repo to project later
-            source: "github",
-            type: "commit",
-            content: commit?.message,
-            url: commit?.url,
-            timestamp: new Date(payload.head_commit?.timestamp || Date.now()),
-          }
-        }
-        break
-
-      case "pull_request":
-        if (payload.action === "opened" || payload.action === "closed") {
-          activityData = {
-            project_id: 1, // Placeholder - map repo to project later
-            source: "github",
-            type: "pull_request",
-            content: `${payload.action === "opened" ? "Opened" : "Closed"} PR: ${payload.pull_request?.title}`,
-            url: payload.pull_request?.html_url,
-            timestamp: new Date(payload.pull_request?.created_at || Date.now()),
-          }
-        }
-        break
-
-      case "issues":
-        if (payload.action === "opened" || payload.action === "closed") {
-          activityData = {
-            project_id: 1, // Placeholder - map repo to project later
-            source: "github",
-            type: "issue",
-            content: `${payload.action === "opened" ? "Opened" : "Closed"} issue: ${payload.issue?.title}`,
-            url: payload.issue?.html_url,
-            timestamp: new Date(payload.issue?.created_at || Date.now()),
-          }
-        }
-        break
+    // Reject anything not signed with our webhook secret
+    const signature = verifyGitHubSignature(raw, request.headers.get("x-hub-signature-256"))
+    if (!signature.ok) {
+      await recordWebhookDelivery({ source: "github", deliveryId, event, status: "rejected", reason: signature.reason })
+      return NextResponse.json({ error: "Invalid signature" }, { status: 401 })
     }
+    if (!deliveryId) {
+      await recordWebhookDelivery({ source: "github", event, status: "rejected", reason: "missing_delivery_id" })
+      return NextResponse.json({ error: "Missing X-GitHub-Delivery header" }, { status: 400 })
+    }
+
+    let payload: GitHubWebhookPayload
+    try {
+      payload = JSON.parse(raw)
+    } catch {
+      await recordWebhookDelivery({ source: "github", deliveryId, event, status: "rejected", reason: "invalid_json" })
+      return NextResponse.json({ error: "Invalid JSON payload" }, { status: 400 })
+    }
+
+    const repoFullName = payload.repository?.full_name ?? null
 
-    // Insert activity log if we have data
-    if (activityData) {
-      await sql`
-        INSERT INTO activity_logs (project_id, source, type, content, url, timestamp)
-        VALUES (${activityData.project_id}, ${activityData.source}, ${activityData.type}, 
-                ${activityData.content}, ${activityData.url}, ${activityData.timestamp})
-      `
+    // Idempotency: a redelivery of an accepted delivery id is logged and acknowledged, not reprocessed
+    claimedId = await claimWebhookDelivery({ source: "github", deliveryId, event, repoFullName, payload })
+    if (claimedId === null) {
+      await recordWebhookDelivery({
+        source: "github",
+        deliveryId,
+        event,
+        repoFullName,
+        status: "duplicate",
+        reason: "delivery_already_received",
+      })
+      return NextResponse.json({ success: true, event, processed: false, duplicate: true })
     }
 
-    return NextResponse.json({ success: true, event, processed: !!activityData })
+    // Map the delivering repo to its project(s)
+    const projects = repoFullName ? await findProjectsByRepo(repoFullName) : []
+
+    if (projects.length === 0) {
+      await completeWebhookDelivery(claimedId, "unmatched", repoFullName ? "no_project_for_repo" : "missing_repository")
+      return NextResponse.json({ success: true, event, processed: false, matched: 0 })
+    }
+
+    const activities = toActivities(event, payload)
+
+    // One activity_logs row per activity that passes the link's filter, for every project linked to this repo
+    let recorded = 0
+    for (const project of projects) {
+      const counted = activities.filter((a) => countsForProject(a, project.filter))
+      for (const a of counted) {
+        if (await deliveryActivityExists(project.id, a.activity_type, a.url ?? null, deliveryId)) continue
+        await insertActivityLog({
+          projectId: project.id,
+          activityType: a.activity_type,
+          source: "github",
+          title: a.title,
+          description: a.description,
+          url: a.url,
+          author: a.author,
+          timestamp: a.timestamp,
+          metadata: { repo: repoFullName, delivery_id: deliveryId, ...a.metadata },
+        })
+      }
+      if (counted.length > 0) await touchProjectActivity(project.id)
+      recorded += counted.length
+    }
+
+    const reason = activities.length === 0 ? "event_ignored" : recorded === 0 ? "filtered_out" : null
+    await completeWebhookDelivery(claimedId, "processed", reason)
+
+    return NextResponse.json({
+      success: true,
+      event,
+      processed: recorded > 0,
+      activities: activities.length,
+      recorded,
+      matched: projects.length,
+    })
   } catch (error) {
     console.error("GitHub webhook error:", error)
+    // Release the delivery id so GitHub's redelivery gets another attempt
+    if (claimedId !== null) {
+      await completeWebhookDelivery(claimedId, "failed", error instanceof Error ? error.message : "unknown_error").catch(
+        () => {},
+      )
+    }
     return NextResponse.json({ error: "Failed to process webhook" }, { status: 500 })
   }
 }
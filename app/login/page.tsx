@@ -0,0 +1,40 @@
+import { LogIn } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+
+const ERRORS: Record<string, string> = {
+  forbidden: "Your Discord account does not have access to the admin area.",
+  invalid_state: "The sign-in link expired. Please try again.",
+  oauth_failed: "Discord sign-in failed. Please try again.",
+}
+
+export default function LoginPage({ searchParams }: { searchParams: { next?: string; error?: string } }) {
+  const next = searchParams.next?.startsWith("/") ? searchParams.next : "/admin"
+  const error = searchParams.error ? (ERRORS[searchParams.error] ?? ERRORS.oauth_failed) : null
+
+  return (
+    <div className="min-h-screen bg-background text-white">
+      <div className="pt-20">
+        <div className="container mx-auto px-4 md:px-6 py-4">
+          <div className="max-w-md mx-auto">
+            <Card className="bg-card/80 backdrop-blur-sm border-border/50">
+              <CardHeader>
+                <CardTitle className="text-white text-2xl font-bold flex items-center gap-2">
+                  <LogIn className="w-6 h-6 text-[#10c0dd]" />
+                  Sign In
+                </CardTitle>
+                <p className="text-muted-foreground">Sign in with the Discord account you use in the community server.</p>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {error && <p className="text-sm text-red-400">{error}</p>}
+                <a href={`/api/auth/discord?next=${encodeURIComponent(next)}`}>
+                  <Button className="w-full bg-[#5865F2] hover:bg-[#4752c4] text-white">Continue with Discord</Button>
+                </a>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
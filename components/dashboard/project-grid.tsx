@@ -7,7 +7,7 @@ import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { StatusBadge } from "@/components/ui/status-badge"
 import { ProjectProgress } from "@/components/ui/project-progress"
-import { capitalizeStatus, formatCompactCurrency } from "@/lib/utils"
+import { capitalizeStatus, formatCompactCurrency, getHealthScoreColor } from "@/lib/utils"
 import type { Milestone, Project } from "@/lib/types"
 
 /** Props: pass paginated Projects and the (global or page) Milestones list */
@@ -16,35 +16,25 @@ interface ProjectGridProps {
   milestones: Milestone[]
 }
 
-/** normalize statuses like "Not Started", "not_started" -> "not-started" */
-function norm(s?: string) {
-  return (s || "").trim().toLowerCase().replace(/[_\s]+/g, "-")
-}
-
 /**
  * Fallback display status when a project has no milestones:
  * Priority:
- *  1) "active" if project.active_milestone_status OR project.status is "active"
+ *  1) "active" if project.status is "active"
  *  2) otherwise project.active_milestone_status (if present)
  *  3) otherwise project.status
  *  4) default "pending"
  */
 function pickDisplayStatus(p: Project): string {
-  const ms = norm((p as any).active_milestone_status) // keep type flexible
-  const ps = norm(p.status)
-
-  if (ms === "active" || ps === "active") return "active"
-  if (ms) return ms
-  if (ps) return ps
-  return "pending"
+  if (p.status === "active") return "active"
+  return p.active_milestone_status || p.status || "pending"
 }
 
 /** Given milestones for a project, compute the status to show on the card */
 function computeStatusFromMilestones(list: Milestone[]): string {
   if (!list.length) return "pending"
   // First milestone that is NOT completed is the "current"
-  const current = list.find((m) => m.status?.toLowerCase() !== "completed")
-  return current ? current.status.toLowerCase() : "completed"
+  const current = list.find((m) => m.status !== "completed")
+  return current ? current.status : "completed"
 }
 
 export const ProjectGrid = React.memo(function ProjectGrid({ projects, milestones }: ProjectGridProps) {
@@ -94,7 +84,14 @@ export const ProjectGrid = React.memo(function ProjectGrid({ projects, milestone
                     })()}
                   </h3>
 
-                  <StatusBadge status={displayStatus} className="text-xs" />
+                  <div className="flex items-center gap-2">
+                    {project.risk_score != null && (
+                      <Badge className={`${getHealthScoreColor(project.risk_score)} text-xs`} title="Health score">
+                        {project.risk_score}
+                      </Badge>
+                    )}
+                    <StatusBadge status={displayStatus} className="text-xs" />
+                  </div>
                 </div>
 
                 <p
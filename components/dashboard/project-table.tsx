@@ -22,35 +22,25 @@ interface ProjectTableProps {
   milestones?: Milestone[]
 }
 
-/** normalize statuses like "Not Started", "not_started" -> "not-started" */
-function norm(s?: string) {
-  return (s || "").trim().toLowerCase().replace(/[_\s]+/g, "-")
-}
-
 /**
  * Fallback display status when a project has no milestones:
  * Priority:
- *  1) "active" if project.active_milestone_status OR project.status is "active"
+ *  1) "active" if project.status is "active"
  *  2) otherwise project.active_milestone_status (if present)
  *  3) otherwise project.status
  *  4) default "pending"
  */
 function pickDisplayStatus(p: Project): string {
-  const ms = norm((p as any).active_milestone_status) // keep type flexible
-  const ps = norm(p.status)
-
-  if (ms === "active" || ps === "active") return "active"
-  if (ms) return ms
-  if (ps) return ps
-  return "pending"
+  if (p.status === "active") return "active"
+  return p.active_milestone_status || p.status || "pending"
 }
 
 /** Given milestones for a project, compute the status to show (same as grid) */
 function computeStatusFromMilestones(list: Milestone[]): string {
   if (!list.length) return "pending"
   // First milestone that is NOT completed is the "current"
-  const current = list.find((m) => m.status?.toLowerCase() !== "completed")
-  return current ? current.status.toLowerCase() : "completed"
+  const current = list.find((m) => m.status !== "completed")
+  return current ? current.status : "completed"
 }
 
 export const ProjectTable = React.memo(function ProjectTable({
@@ -18,6 +18,8 @@ interface FormFieldProps {
   helpText?: string
   options?: { value: string; label: string }[]
   icon?: React.ReactNode
+  /** A validation message shown under the input */
+  error?: string
 }
 
 export function FormField({
@@ -31,6 +33,7 @@ export function FormField({
   helpText,
   options,
   icon,
+  error,
 }: FormFieldProps) {
   const renderInput = () => {
     switch (type) {
@@ -100,6 +103,7 @@ export function FormField({
       </Label>
       {renderInput()}
       {helpText && <p className="text-sm text-muted-foreground">{helpText}</p>}
+      {error && <p className="text-sm text-red-400">{error}</p>}
     </div>
   )
 }
@@ -0,0 +1,399 @@
+"use client"
+
+import { FormField } from "@/components/forms/form-field"
+import { RepositoryFields, type RepositoryFieldValue } from "@/components/forms/repository-fields"
+import type { FieldErrors } from "@/lib/schemas"
+import type { Project } from "@/lib/types"
+
+/** The project form's state; every input is a string, converted by toProjectPayload */
+export interface ProjectFieldValues {
+  title: string
+  creatorUsername: string
+  granteeEmail: string
+  background: string
+  missionExpertise: string
+  campaignGoals: string
+  fundingRequested: string
+  discordChannel: string
+  proposalLink: string
+  websiteLinks: string
+  programType: string
+  category: string
+  duration: string
+  creatorStat1Name: string
+  creatorStat1Number: string
+  creatorStat2Name: string
+  creatorStat2Number: string
+  youtubeLink: string
+  tiktokLink: string
+  twitterLink: string
+  twitchLink: string
+}
+
+export const emptyProjectFields = (): ProjectFieldValues => ({
+  title: "",
+  creatorUsername: "",
+  granteeEmail: "",
+  background: "",
+  missionExpertise: "",
+  campaignGoals: "",
+  fundingRequested: "",
+  discordChannel: "",
+  proposalLink: "",
+  websiteLinks: "",
+  programType: "",
+  category: "",
+  duration: "",
+  creatorStat1Name: "",
+  creatorStat1Number: "",
+  creatorStat2Name: "",
+  creatorStat2Number: "",
+  youtubeLink: "",
+  tiktokLink: "",
+  twitterLink: "",
+  twitchLink: "",
+})
+
+const str = (v: string | number | null | undefined) => (v == null ? "" : String(v))
+
+/** Form state for editing an existing project */
+export function projectFieldsFromProject(p: Project): ProjectFieldValues {
+  return {
+    title: str(p.name),
+    creatorUsername: str(p.creator_username),
+    granteeEmail: str(p.grantee_email),
+    background: str(p.description),
+    missionExpertise: str(p.mission_expertise),
+    campaignGoals: str(p.campaign_goals),
+    fundingRequested: str(p.funding_amount),
+    discordChannel: str(p.discord_channel),
+    proposalLink: str(p.proposal_link),
+    websiteLinks: str(p.website_links),
+    programType: str(p.program_type),
+    category: str(p.category),
+    duration: str(p.duration),
+    creatorStat1Name: str(p.creator_stat_1_name),
+    creatorStat1Number: str(p.creator_stat_1_number),
+    creatorStat2Name: str(p.creator_stat_2_name),
+    creatorStat2Number: str(p.creator_stat_2_number),
+    youtubeLink: str(p.youtube_link),
+    tiktokLink: str(p.tiktok_link),
+    twitterLink: str(p.twitter_link),
+    twitchLink: str(p.twitch_link),
+  }
+}
+
+/** Form state as projects API fields (POST /api/projects, PATCH /api/projects/:id); numbers are parsed by the schema */
+export function toProjectPayload(value: ProjectFieldValues) {
+  return {
+    name: value.title,
+    description: value.background,
+    proposal_link: value.proposalLink,
+    discord_channel: value.discordChannel || null,
+    funding_amount: value.fundingRequested,
+    creator_username: value.creatorUsername,
+    grantee_email: value.granteeEmail,
+    mission_expertise: value.missionExpertise,
+    campaign_goals: value.campaignGoals,
+    website_links: value.websiteLinks,
+    program_type: value.programType,
+    category: value.category,
+    duration: value.duration,
+    creator_stat_1_name: value.creatorStat1Name,
+    creator_stat_1_number: value.creatorStat1Number,
+    creator_stat_2_name: value.creatorStat2Name,
+    creator_stat_2_number: value.creatorStat2Number,
+    youtube_link: value.youtubeLink,
+    tiktok_link: value.tiktokLink,
+    twitter_link: value.twitterLink,
+    twitch_link: value.twitchLink,
+  }
+}
+
+// The API field each input is sent as (see toProjectPayload), to place errors from lib/schemas.ts or the API
+const API_FIELDS: Record<keyof ProjectFieldValues, string> = {
+  title: "name",
+  creatorUsername: "creator_username",
+  granteeEmail: "grantee_email",
+  background: "description",
+  missionExpertise: "mission_expertise",
+  campaignGoals: "campaign_goals",
+  fundingRequested: "funding_amount",
+  discordChannel: "discord_channel",
+  proposalLink: "proposal_link",
+  websiteLinks: "website_links",
+  programType: "program_type",
+  category: "category",
+  duration: "duration",
+  creatorStat1Name: "creator_stat_1_name",
+  creatorStat1Number: "creator_stat_1_number",
+  creatorStat2Name: "creator_stat_2_name",
+  creatorStat2Number: "creator_stat_2_number",
+  youtubeLink: "youtube_link",
+  tiktokLink: "tiktok_link",
+  twitterLink: "twitter_link",
+  twitchLink: "twitch_link",
+}
+
+interface ProjectFieldsProps {
+  value: ProjectFieldValues
+  onChange: (value: ProjectFieldValues) => void
+  repositories: RepositoryFieldValue[]
+  onRepositoriesChange: (value: RepositoryFieldValue[]) => void
+  /** Validation errors keyed by API field name */
+  errors?: FieldErrors
+}
+
+/** The fields shared by the create and edit project pages */
+export function ProjectFields({ value, onChange, repositories, onRepositoriesChange, errors }: ProjectFieldsProps) {
+  const set = (field: keyof ProjectFieldValues, next: string) => onChange({ ...value, [field]: next })
+  const errorFor = (field: keyof ProjectFieldValues) => errors?.[API_FIELDS[field]]?.[0]
+
+  return (
+    <>
+      <FormField
+        id="title"
+        label="Project Title"
+        value={value.title}
+        onChange={(next) => set("title", next)}
+        error={errorFor("title")}
+        placeholder="Enter project title"
+        required
+      />
+
+      <FormField
+        id="creatorUsername"
+        label="Creator Username (Discord)"
+        value={value.creatorUsername}
+        onChange={(next) => set("creatorUsername", next)}
+        error={errorFor("creatorUsername")}
+        placeholder="Discord username for authentication"
+        required
+      />
+
+      <FormField
+        id="granteeEmail"
+        label="Grantee Email"
+        type="email"
+        value={value.granteeEmail}
+        onChange={(next) => set("granteeEmail", next)}
+        error={errorFor("granteeEmail")}
+        placeholder="grantee@example.com"
+        required
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <FormField
+          id="category"
+          label="Category"
+          type="select"
+          value={value.category}
+          onChange={(next) => set("category", next)}
+          error={errorFor("category")}
+          placeholder="Select category"
+          options={[
+            { value: "development", label: "Development" },
+            { value: "education", label: "Education" },
+            { value: "infrastructure", label: "Infrastructure" },
+            { value: "content", label: "Content" },
+            { value: "research", label: "Research" },
+            { value: "technology", label: "Technology" },
+          ]}
+          required
+        />
+      </div>
+
+      <FormField
+        id="programType"
+        label="Program Type"
+        type="select"
+        value={value.programType}
+        onChange={(next) => set("programType", next)}
+        error={errorFor("programType")}
+        placeholder="Select program type"
+        options={[
+          { value: "milestone", label: "Milestone-based Program" },
+          { value: "program", label: "Program with Sub-projects" },
+        ]}
+        helpText="Milestone-based programs track progress through milestones. Programs with sub-projects contain multiple projects instead of milestones."
+        required
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <FormField
+          id="fundingRequested"
+          label="Budget"
+          type="number"
+          value={value.fundingRequested}
+          onChange={(next) => set("fundingRequested", next)}
+          error={errorFor("fundingRequested")}
+          placeholder="25000"
+          required
+        />
+
+        <FormField
+          id="duration"
+          label="Duration"
+          value={value.duration}
+          onChange={(next) => set("duration", next)}
+          error={errorFor("duration")}
+          placeholder="e.g., 1 year, 6 months, 3 weeks"
+          required
+        />
+      </div>
+
+      <FormField
+        id="background"
+        label="Project Background"
+        type="textarea"
+        value={value.background}
+        onChange={(next) => set("background", next)}
+        error={errorFor("background")}
+        placeholder="Describe the project background and context..."
+        required
+      />
+
+      <FormField
+        id="missionExpertise"
+        label="Mission & Expertise"
+        type="textarea"
+        value={value.missionExpertise}
+        onChange={(next) => set("missionExpertise", next)}
+        error={errorFor("missionExpertise")}
+        placeholder="Describe the mission and team expertise..."
+        required
+      />
+
+      <FormField
+        id="campaignGoals"
+        label="Campaign Goals"
+        type="textarea"
+        value={value.campaignGoals}
+        onChange={(next) => set("campaignGoals", next)}
+        error={errorFor("campaignGoals")}
+        placeholder="Describe the campaign goals and expected outcomes..."
+        required
+      />
+
+      <div className="space-y-4">
+        <h3 className="text-white font-medium text-lg">Creator Statistics (Optional)</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            id="creatorStat1Name"
+            label="Statistic 1 Name"
+            value={value.creatorStat1Name}
+            onChange={(next) => set("creatorStat1Name", next)}
+            error={errorFor("creatorStat1Name")}
+            placeholder="e.g., GitHub Stars, Followers, etc."
+          />
+          <FormField
+            id="creatorStat1Number"
+            label="Statistic 1 Number"
+            type="number"
+            value={value.creatorStat1Number}
+            onChange={(next) => set("creatorStat1Number", next)}
+            error={errorFor("creatorStat1Number")}
+            placeholder="1000"
+          />
+
+          <FormField
+            id="creatorStat2Name"
+            label="Statistic 2 Name"
+            value={value.creatorStat2Name}
+            onChange={(next) => set("creatorStat2Name", next)}
+            error={errorFor("creatorStat2Name")}
+            placeholder="e.g., Years Experience, Projects, etc."
+          />
+          <FormField
+            id="creatorStat2Number"
+            label="Statistic 2 Number"
+            type="number"
+            value={value.creatorStat2Number}
+            onChange={(next) => set("creatorStat2Number", next)}
+            error={errorFor("creatorStat2Number")}
+            placeholder="5"
+          />
+        </div>
+      </div>
+
+      <RepositoryFields value={repositories} onChange={onRepositoriesChange} />
+
+      <FormField
+        id="discordChannel"
+        label="Discord Channel ID"
+        value={value.discordChannel}
+        onChange={(next) => set("discordChannel", next)}
+        error={errorFor("discordChannel")}
+        placeholder="123456789012345678"
+        helpText="Optional: Messages in this channel (and its threads) count as project activity"
+      />
+
+      <FormField
+        id="proposalLink"
+        label="Proposal Link"
+        type="url"
+        value={value.proposalLink}
+        onChange={(next) => set("proposalLink", next)}
+        error={errorFor("proposalLink")}
+        placeholder="https://example.com/proposal-document"
+        helpText="Optional: Link to the original project proposal document"
+      />
+
+      <div className="space-y-4">
+        <h3 className="text-white font-medium text-lg">Platform Links (Optional)</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            id="youtubeLink"
+            label="YouTube"
+            type="url"
+            value={value.youtubeLink}
+            onChange={(next) => set("youtubeLink", next)}
+            error={errorFor("youtubeLink")}
+            placeholder="https://youtube.com/@username"
+          />
+
+          <FormField
+            id="tiktokLink"
+            label="TikTok"
+            type="url"
+            value={value.tiktokLink}
+            onChange={(next) => set("tiktokLink", next)}
+            error={errorFor("tiktokLink")}
+            placeholder="https://tiktok.com/@username"
+          />
+
+          <FormField
+            id="twitterLink"
+            label="X/Twitter"
+            type="url"
+            value={value.twitterLink}
+            onChange={(next) => set("twitterLink", next)}
+            error={errorFor("twitterLink")}
+            placeholder="https://x.com/username"
+          />
+
+          <FormField
+            id="twitchLink"
+            label="Twitch"
+            type="url"
+            value={value.twitchLink}
+            onChange={(next) => set("twitchLink", next)}
+            error={errorFor("twitchLink")}
+            placeholder="https://twitch.tv/username"
+          />
+        </div>
+      </div>
+
+      <FormField
+        id="websiteLinks"
+        label="Website / Platform Links"
+        type="textarea"
+        value={value.websiteLinks}
+        onChange={(next) => set("websiteLinks", next)}
+        error={errorFor("websiteLinks")}
+        placeholder="Enter website URLs, social media links, etc. (one per line)"
+        helpText="Optional: Add website, social media, or other platform links (one per line)"
+      />
+    </>
+  )
+}
@@ -0,0 +1,146 @@
+"use client"
+
+import { Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { FormField } from "@/components/forms/form-field"
+import type { ProjectRepository } from "@/lib/types"
+
+export interface RepositoryFieldValue {
+  repo: string
+  label: string
+  /** Comma-separated, e.g. "main, release/*" */
+  branches: string
+  /** Comma-separated logins on top of the built-in dependency bots */
+  excludedAuthors: string
+}
+
+interface RepositoryFieldsProps {
+  value: RepositoryFieldValue[]
+  onChange: (value: RepositoryFieldValue[]) => void
+  max?: number
+}
+
+export const emptyRepositoryField = (): RepositoryFieldValue => ({
+  repo: "",
+  label: "",
+  branches: "",
+  excludedAuthors: "",
+})
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean)
+
+/** Editor rows for a project's linked repositories */
+export function repositoryFieldsFromProject(
+  repositories: readonly ProjectRepository[] | undefined,
+): RepositoryFieldValue[] {
+  if (!repositories?.length) return [emptyRepositoryField()]
+  return repositories.map((r) => ({
+    repo: r.repo,
+    label: r.label ?? "",
+    branches: r.branches.join(", "),
+    excludedAuthors: r.excluded_authors.join(", "),
+  }))
+}
+
+/** Rows with a repo filled in, shaped for the `repositories` field of the projects API */
+export function toRepositoryPayload(value: RepositoryFieldValue[]) {
+  return value
+    .filter((r) => r.repo.trim())
+    .map((r) => ({
+      repo: r.repo.trim(),
+      label: r.label.trim() || null,
+      branches: splitList(r.branches),
+      excluded_authors: splitList(r.excludedAuthors),
+    }))
+}
+
+export function RepositoryFields({ value, onChange, max = 20 }: RepositoryFieldsProps) {
+  const rows = value.length > 0 ? value : [emptyRepositoryField()]
+
+  const update = (index: number, field: keyof RepositoryFieldValue, next: string) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, [field]: next } : row)))
+  }
+
+  const remove = (index: number) => {
+    onChange(rows.filter((_, i) => i !== index))
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-white font-medium text-lg">GitHub Repositories (Optional)</h3>
+        <p className="text-sm text-muted-foreground">
+          Activity in any linked repository counts as project activity. The first one is the primary repository.
+          Dependency bots such as Dependabot and Renovate never count.
+        </p>
+      </div>
+
+      {rows.map((row, index) => (
+        <div key={index} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr_auto] gap-4 items-end">
+            <FormField
+              id={`repository-${index}`}
+              label={index === 0 ? "Repository Link" : `Repository ${index + 1}`}
+              type="url"
+              value={row.repo}
+              onChange={(next) => update(index, "repo", next)}
+              placeholder="https://github.com/username/repository"
+            />
+            <FormField
+              id={`repository-label-${index}`}
+              label="Label"
+              value={row.label}
+              onChange={(next) => update(index, "label", next)}
+              placeholder="e.g., Frontend, Contracts"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              onClick={() => remove(index)}
+              disabled={rows.length === 1 && !row.repo && !row.label}
+              className="border-border text-muted-foreground hover:bg-card"
+              aria-label="Remove repository"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              id={`repository-branches-${index}`}
+              label="Branches"
+              value={row.branches}
+              onChange={(next) => update(index, "branches", next)}
+              placeholder="e.g., main, release/*"
+              helpText="Optional: Only activity on these branches counts (all branches when empty)"
+            />
+            <FormField
+              id={`repository-excluded-authors-${index}`}
+              label="Ignored Authors"
+              value={row.excludedAuthors}
+              onChange={(next) => update(index, "excludedAuthors", next)}
+              placeholder="e.g., github-actions[bot]"
+              helpText="Optional: GitHub logins whose activity does not count"
+            />
+          </div>
+        </div>
+      ))}
+
+      {rows.length < max && (
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => onChange([...rows, emptyRepositoryField()])}
+          className="border-border text-muted-foreground hover:bg-card"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Repository
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 "use client"
 import { useState, useMemo } from "react"
 import useSWR from "swr"
-import { Check, ChevronLeft, ChevronRight, FileText, ArrowLeft, ChevronDown, ChevronUp } from "lucide-react"
+import { Check, ChevronLeft, ChevronRight, FileText, ArrowLeft, ChevronDown, ChevronUp, Pencil } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
@@ -19,6 +19,9 @@ import {
   shouldShowProgressBar,
   formatCompactCurrency,
 } from "@/lib/utils"
+import { ProjectHealth } from "@/components/project/project-health"
+import { ProjectContributors } from "@/components/project/project-contributors"
+import type { ProjectContributors as ProjectContributorsData, RiskFactor } from "@/lib/types"
 import { useProject } from "@/hooks/use-project"
 import { useProjects } from "@/hooks/use-projects"
 
@@ -81,6 +84,8 @@ interface Project {
   end_date: string
   github_repo?: string
   proposal_link?: string
+  risk_score?: number | null
+  risk_factors?: RiskFactor[] | null
 }
 
 interface Milestone {
@@ -124,7 +129,7 @@ function RecentUpdatesList({
                 )}
                 <div className="mt-2 flex flex-wrap gap-2">
                   <Badge
-                    className="border-border/30 text-muted-foreground text-[10px] bg-white/5"
+                    className="border-border/30 text-muted-foreground text-[10px] bg-white/5 uppercase"
                     style={{ borderRadius: "var(--wui-border-radius-xs)" }}
                   >
                     {u.source}
@@ -283,6 +288,13 @@ export default function IndividualProjectContent() {
     dedupingInterval: 60_000,
   })
 
+  // GitHub contributors (who is doing the work)
+  const { data: contributors, isLoading: contributorsLoading } = useSWR<ProjectContributorsData>(
+    projectId ? `/api/projects/${projectId}/contributors` : null,
+    fetcher,
+    { revalidateOnFocus: false, dedupingInterval: 60_000 },
+  )
+
   // collapsible states
   const [isMilestonesOpenDesktop, setIsMilestonesOpenDesktop] = useState(true)
   const [isMilestonesOpenMobile, setIsMilestonesOpenMobile] = useState(true)
@@ -373,6 +385,13 @@ export default function IndividualProjectContent() {
             >
               Project Details
             </h1>
+            <Link
+              href={`/admin/projects/${project.id}/edit`}
+              className="ml-auto flex items-center gap-2 text-sm text-muted-foreground hover:text-[#10c0dd]"
+            >
+              <Pencil className="w-3 h-3" />
+              <span>Edit</span>
+            </Link>
           </div>
 
           {(() => {
@@ -457,6 +476,12 @@ export default function IndividualProjectContent() {
                 </CardContent>
               </Card>
 
+              {/* Health */}
+              <ProjectHealth score={project.risk_score} factors={project.risk_factors} />
+
+              {/* Contributors */}
+              <ProjectContributors data={contributors} isLoading={contributorsLoading} />
+
               {/* Stats */}
               <div className="grid grid-cols-2 gap-4 mb-6">
                 <Card
@@ -0,0 +1,79 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { formatDate } from "@/lib/utils"
+import type { ProjectContributors as ProjectContributorsData } from "@/lib/types"
+
+const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? "" : "s"}`
+
+interface ProjectContributorsProps {
+  data: ProjectContributorsData | undefined
+  isLoading?: boolean
+}
+
+/** GitHub contributors from the project's ingested activity, and how much of the work the grantee does */
+export function ProjectContributors({ data, isLoading }: ProjectContributorsProps) {
+  if (!isLoading && (!data || data.contributors.length === 0)) return null
+
+  return (
+    <Card
+      className="bg-card/80 backdrop-blur-sm border-border/50 mb-6"
+      style={{ borderRadius: "var(--wui-border-radius-m)" }}
+    >
+      <CardHeader className="pb-2">
+        <CardTitle
+          className="text-white text-lg md:text-xl flex items-center justify-between"
+          style={{ fontFamily: "var(--font-sf-rounded)", letterSpacing: "0.0025em", lineHeight: "145%" }}
+        >
+          Contributors
+          {data?.grantee_commit_share != null && (
+            <Badge className="bg-[#10c0dd]/20 text-[#10c0dd] text-xs">
+              {data.grantee_commit_share}% of commits by grantee
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !data ? (
+          <p className="text-sm text-muted-foreground">Loading contributors…</p>
+        ) : (
+          <div className="divide-y divide-border/50">
+            {data.contributors.map((c) => (
+              <div key={c.login} className="py-2 flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="text-white text-sm font-medium truncate">{c.login}</span>
+                    {c.is_grantee && <Badge className="bg-green-500/20 text-green-400 text-xs">Grantee</Badge>}
+                    {c.discord_username && !c.is_grantee && (
+                      <span className="text-xs text-muted-foreground">@{c.discord_username}</span>
+                    )}
+                    {c.matched_by === "self_claimed" && (
+                      <Badge
+                        className="bg-yellow-500/20 text-yellow-400 text-xs"
+                        title="Linked with /link-github but not verified; not counted as the grantee"
+                      >
+                        Unverified
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    {[
+                      count(c.commits, "commit"),
+                      count(c.pull_requests, "PR"),
+                      count(c.merges, "merge"),
+                      count(c.reviews, "review"),
+                      ...(c.repos.length > 1 ? [count(c.repos.length, "repo")] : []),
+                    ].join(" · ")}
+                  </p>
+                </div>
+                <div className="text-right shrink-0">
+                  <p className="text-xs text-muted-foreground">Last active</p>
+                  <p className="text-xs text-white">{formatDate(c.last_active_at)}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
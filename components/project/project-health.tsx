@@ -0,0 +1,48 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { getHealthScoreColor } from "@/lib/utils"
+import type { RiskFactor } from "@/lib/types"
+
+interface ProjectHealthProps {
+  score: number | null | undefined
+  factors: readonly RiskFactor[] | null | undefined
+}
+
+/** Health score from the latest risk scan, with what each factor contributed */
+export function ProjectHealth({ score, factors }: ProjectHealthProps) {
+  if (score == null) return null
+
+  return (
+    <Card
+      className="bg-card/80 backdrop-blur-sm border-border/50 mb-6"
+      style={{ borderRadius: "var(--wui-border-radius-m)" }}
+    >
+      <CardHeader className="pb-2">
+        <CardTitle
+          className="text-white text-lg md:text-xl flex items-center justify-between"
+          style={{ fontFamily: "var(--font-sf-rounded)", letterSpacing: "0.0025em", lineHeight: "145%" }}
+        >
+          Project Health
+          <Badge className={`${getHealthScoreColor(score)} text-xs`}>{score}/100</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {(factors ?? [])
+          .filter((f) => f.weight > 0)
+          .map((f) => (
+            <div key={f.key}>
+              <div className="flex items-center justify-between text-xs mb-1">
+                <span className="text-white">{f.label}</span>
+                <span className="text-muted-foreground">
+                  {Math.round(f.points)} / {Math.round(f.weight)}
+                </span>
+              </div>
+              <Progress value={(f.points / f.weight) * 100} className="h-1.5 bg-border [&>div]:bg-[#10c0dd]" />
+              <p className="text-xs text-muted-foreground mt-1">{f.detail}</p>
+            </div>
+          ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -47,7 +47,7 @@ export default function RecentUpdatePopup({ isOpen, onClose, activity }: RecentU
                         </DialogTitle>
 
                         <div className="flex items-center gap-2">
-                            <Badge className="border-border/30 text-[10px] text-muted-foreground bg-white/5">
+                            <Badge className="border-border/30 text-[10px] text-muted-foreground bg-white/5 uppercase">
                                 {activity.source}
                             </Badge>
                             <Badge className="border-border/30 text-[10px] text-muted-foreground bg-white/5 capitalize">
@@ -14,11 +14,27 @@ validateEnvironmentVariables(requiredVars)
 
 export const config = {
   backendUrl: process.env.BACKEND_URL!,
+  // API tokens issued at /admin/tokens: the Discord bot's (activity:write, milestones:complete) and the
+  // scheduler's (scan:run). Only the scan scripts need SCAN_API_TOKEN; they refuse to start without it.
   serviceBotToken: process.env.SERVICE_BOT_TOKEN!,
+  scanApiToken: process.env.SCAN_API_TOKEN!,
   githubToken: process.env.GITHUB_TOKEN!,
+  githubWebhookSecret: process.env.GITHUB_WEBHOOK_SECRET!,
   discordBotToken: process.env.DISCORD_BOT_TOKEN_COMMANDER!,
   guildId: process.env.DISCORD_GUILD_ID!,
+  discordAdminChannelId: process.env.DISCORD_ADMIN_CHANNEL_ID!,
+  discordAdminRoleId: process.env.DISCORD_ADMIN_ROLE_ID!,
+  discordReviewerRoleId: process.env.DISCORD_REVIEWER_ROLE_ID!,
   databaseUrl: process.env.DATABASE_URL!,
   discordAppId: process.env.DISCORD_APP_ID_COMMANDER!,
-  discordPublicKey: process.env.DISCORD_PUBLIC_KEY!
+  discordPublicKey: process.env.DISCORD_PUBLIC_KEY!,
+  // Discord OAuth for the admin UI (the client id is the app id above)
+  discordClientSecret: process.env.DISCORD_CLIENT_SECRET!,
+  // Days a deleted project stays restorable in /admin/trash before it is purged with its milestones and activity
+  projectTrashRetentionDays: Number.parseInt(process.env.PROJECT_TRASH_RETENTION_DAYS || "30"),
+  // Discord user ids made admin when they sign in
+  adminDiscordIds: (process.env.ADMIN_DISCORD_IDS || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean),
 }
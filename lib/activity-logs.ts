@@ -0,0 +1,110 @@
+import "server-only"
+import { sql } from "@/lib/db"
+import type { ActivityLog, ActivitySource } from "@/lib/types"
+
+/**
+ * The one place that writes to activity_logs.
+ * Column names follow scripts/01-create-tables.sql (see 05-reconcile-activity-logs.sql).
+ */
+
+export const ACTIVITY_SOURCES: readonly ActivitySource[] = ["github", "discord", "manual"]
+
+export function isActivitySource(value: unknown): value is ActivitySource {
+  return typeof value === "string" && (ACTIVITY_SOURCES as readonly string[]).includes(value)
+}
+
+export interface NewActivityLog {
+  projectId: number
+  activityType: string
+  source: ActivitySource
+  title?: string | null
+  description?: string | null
+  url?: string | null
+  author?: string | null
+  timestamp?: string | Date | null
+  metadata?: Record<string, unknown> | null
+}
+
+// VARCHAR limits from the schema; longer values are clipped rather than failing the insert
+function clip(value: string | null | undefined, max: number): string | null {
+  if (value == null) return null
+  return value.length > max ? value.slice(0, max) : value
+}
+
+export async function insertActivityLog(entry: NewActivityLog): Promise<ActivityLog> {
+  const { projectId, activityType, source, title, description, url, author, timestamp, metadata } = entry
+
+  const [row] = (await sql/*sql*/`
+    INSERT INTO activity_logs (project_id, activity_type, source, title, description, url, author, "timestamp", metadata)
+    VALUES (
+      ${projectId},
+      ${clip(activityType, 100)},
+      ${source},
+      ${clip(title, 255)},
+      ${description ?? null},
+      ${clip(url, 500)},
+      ${clip(author, 255)},
+      ${timestamp ? new Date(timestamp) : new Date()},
+      ${JSON.stringify(metadata ?? {})}
+    )
+    RETURNING *
+  `) as ActivityLog[]
+
+  return row!
+}
+
+/**
+ * Already recorded by this webhook delivery? A redelivery that takes over a crashed claim (claimWebhookDelivery)
+ * replays the whole delivery; this skips what the first attempt got to.
+ */
+export async function deliveryActivityExists(
+  projectId: number,
+  activityType: string,
+  url: string | null,
+  deliveryId: string,
+): Promise<boolean> {
+  const rows = await sql/*sql*/`
+    SELECT 1
+    FROM activity_logs
+    WHERE project_id = ${projectId}
+      AND activity_type = ${activityType}
+      AND url IS NOT DISTINCT FROM ${url}
+      AND metadata->>'delivery_id' = ${deliveryId}
+    LIMIT 1
+  `
+  return rows.length > 0
+}
+
+/** Same (project, type, url) already recorded? Used to avoid mirroring an item twice. */
+export async function activityExists(projectId: number, activityType: string, url: string | null): Promise<boolean> {
+  if (!url) return false
+  const rows = await sql/*sql*/`
+    SELECT 1
+    FROM activity_logs
+    WHERE project_id = ${projectId}
+      AND activity_type = ${activityType}
+      AND url = ${url}
+    LIMIT 1
+  `
+  return rows.length > 0
+}
+
+/** Bump projects.last_activity_at after recording activity on the project's behalf */
+export async function touchProjectActivity(projectId: number) {
+  await sql/*sql*/`
+    UPDATE projects
+    SET last_activity_at = NOW(), updated_at = NOW()
+    WHERE id = ${projectId}
+  `
+}
+
+export async function listActivityLogs(opts: { projectId?: number | null; limit?: number } = {}): Promise<ActivityLog[]> {
+  const { projectId = null, limit = 50 } = opts
+  return (await sql/*sql*/`
+    SELECT * FROM activity_logs
+    WHERE project_id IN (SELECT id FROM projects WHERE deleted_at IS NULL)
+    ${projectId ? sql`AND project_id = ${projectId}` : sql``}
+    ORDER BY "timestamp" DESC
+    LIMIT ${limit}
+  `) as ActivityLog[]
+}
@@ -1,11 +1,14 @@
 import { NextResponse } from "next/server"
+import type { z } from "zod"
 import type { ApiResponse } from "./types"
+import { toFieldErrors, type FieldErrors } from "./schemas"
 
 // Standard error responses
 export class ApiError extends Error {
   constructor(
     public statusCode: number,
     message: string,
+    public fields?: FieldErrors,
   ) {
     super(message)
     this.name = "ApiError"
@@ -26,7 +29,10 @@ export function handleApiError(error: unknown): NextResponse {
   }
 
   if (error instanceof ApiError) {
-    return NextResponse.json({ error: error.message } as ApiResponse<never>, { status: error.statusCode })
+    return NextResponse.json(
+      (error.fields ? { error: error.message, fields: error.fields } : { error: error.message }) as ApiResponse<never>,
+      { status: error.statusCode },
+    )
   }
 
   if (error instanceof Error) {
@@ -41,6 +47,12 @@ export function handleApiError(error: unknown): NextResponse {
       return NextResponse.json({ error: "Referenced record does not exist" } as ApiResponse<never>, { status: 400 })
     }
 
+    if (error.message.includes("check constraint")) {
+      return NextResponse.json({ error: "A field has a value that is not allowed" } as ApiResponse<never>, {
+        status: 400,
+      })
+    }
+
     const message = process.env.NODE_ENV === "development" ? error.message : "An error occurred"
     return NextResponse.json({ error: message } as ApiResponse<never>, { status: 500 })
   }
@@ -50,23 +62,14 @@ export function handleApiError(error: unknown): NextResponse {
 }
 
 // Input validation helpers
-export function validateRequired(fields: Record<string, any>): void {
-  const missing = Object.entries(fields)
-    .filter(([_, value]) => value === undefined || value === null || value === "")
-    .map(([key]) => key)
-
-  if (missing.length > 0) {
-    throw new ApiError(400, `Missing required fields: ${missing.join(", ")}`)
-  }
-}
 
-export function validateStringLength(value: string | null | undefined, fieldName: string, maxLength: number): void {
-  if (value && typeof value === "string" && value.length > maxLength) {
-    throw new ApiError(
-      400,
-      `Field '${fieldName}' exceeds maximum length of ${maxLength} characters (${value.length} provided)`,
-    )
+/** Parse a request body with a schema from lib/schemas.ts; failures become a 400 listing the errors per field */
+export function parseInput<T extends z.ZodTypeAny>(schema: T, body: unknown): z.output<T> {
+  const result = schema.safeParse(body)
+  if (!result.success) {
+    throw new ApiError(400, "Validation failed", toFieldErrors(result.error))
   }
+  return result.data
 }
 
 export function validateNumber(value: any, fieldName: string, options?: { min?: number; max?: number }): number {
@@ -87,12 +90,6 @@ export function validateNumber(value: any, fieldName: string, options?: { min?:
   return num
 }
 
-export function validateEmail(email: string | null | undefined, fieldName = "email"): void {
-  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
-    throw new ApiError(400, `Field '${fieldName}' must be a valid email address`)
-  }
-}
-
 export function validateDate(date: string | null | undefined, fieldName: string): void {
   if (date && isNaN(new Date(date).getTime())) {
     throw new ApiError(400, `Field '${fieldName}' must be a valid date`)
@@ -0,0 +1,84 @@
+import "server-only"
+import { createHash, randomBytes } from "crypto"
+import { sql } from "@/lib/db"
+import { ApiError } from "@/lib/api-helpers"
+import type { ApiToken, ApiTokenScope } from "@/lib/types"
+
+/**
+ * Scoped tokens for the automation endpoints. Each integration gets its own token with only the scopes it needs,
+ * so a leaked token can be revoked without rotating every other integration.
+ *   activity:write       progress updates, activity logs, relayed channel messages, linked channels,
+ *                        GitHub identity links
+ *   milestones:complete  milestone completion from Discord
+ *   scan:run             risk scans and GitHub history imports
+ */
+export const API_TOKEN_SCOPES: readonly ApiTokenScope[] = ["activity:write", "milestones:complete", "scan:run"]
+
+const TOKEN_PREFIX = "p6_"
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex")
+}
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return API_TOKEN_SCOPES.includes(value as ApiTokenScope)
+}
+
+/** Issue a token; the plaintext is only available in this return value */
+export async function createApiToken(input: {
+  name: string
+  scopes: readonly ApiTokenScope[]
+  expiresAt: string | null
+  createdBy: string | null
+}): Promise<{ token: string; record: ApiToken }> {
+  const token = TOKEN_PREFIX + randomBytes(32).toString("base64url")
+  const [record] = (await sql/*sql*/`
+    INSERT INTO api_tokens (name, token_hash, token_prefix, scopes, expires_at, created_by)
+    VALUES (
+      ${input.name}, ${hashToken(token)}, ${token.slice(0, 10)},
+      ${input.scopes as ApiTokenScope[]}, ${input.expiresAt}, ${input.createdBy}
+    )
+    RETURNING id, name, token_prefix, scopes, expires_at, last_used_at, revoked_at, created_by, created_at
+  `) as ApiToken[]
+  return { token, record: record! }
+}
+
+export async function listApiTokens(): Promise<ApiToken[]> {
+  return (await sql/*sql*/`
+    SELECT id, name, token_prefix, scopes, expires_at, last_used_at, revoked_at, created_by, created_at
+    FROM api_tokens
+    ORDER BY revoked_at IS NOT NULL, created_at DESC
+  `) as ApiToken[]
+}
+
+export async function revokeApiToken(id: number): Promise<ApiToken | null> {
+  const [record] = (await sql/*sql*/`
+    UPDATE api_tokens SET revoked_at = COALESCE(revoked_at, NOW())
+    WHERE id = ${id}
+    RETURNING id, name, token_prefix, scopes, expires_at, last_used_at, revoked_at, created_by, created_at
+  `) as ApiToken[]
+  return record ?? null
+}
+
+/**
+ * The Bearer token of `req`, if it is live and carries `scope`; otherwise ApiError 401 (missing, unknown,
+ * revoked or expired) or 403 (token lacks the scope). Successful checks stamp last_used_at.
+ */
+export async function requireApiToken(req: Request, scope: ApiTokenScope): Promise<ApiToken> {
+  const auth = req.headers.get("authorization") || ""
+  const token = auth.startsWith("Bearer ") ? auth.slice("Bearer ".length) : ""
+  if (!token) throw new ApiError(401, "Unauthorized")
+
+  const [record] = (await sql/*sql*/`
+    SELECT id, name, token_prefix, scopes, expires_at, last_used_at, revoked_at, created_by, created_at
+    FROM api_tokens
+    WHERE token_hash = ${hashToken(token)}
+      AND revoked_at IS NULL
+      AND (expires_at IS NULL OR expires_at > NOW())
+  `) as ApiToken[]
+  if (!record) throw new ApiError(401, "Unauthorized")
+  if (!record.scopes.includes(scope)) throw new ApiError(403, `Token is missing the '${scope}' scope`)
+
+  await sql/*sql*/`UPDATE api_tokens SET last_used_at = NOW() WHERE id = ${record.id}`
+  return record
+}
@@ -0,0 +1,97 @@
+import "server-only"
+import { sql } from "@/lib/db"
+import type { ApiToken, AuditActorType, AuditEvent, User } from "@/lib/types"
+
+/**
+ * The audit trail: every mutating API route records who did it and a field-level diff of the entity.
+ * Recording is best-effort — a failed insert is logged and never fails the mutation it describes.
+ */
+
+export type AuditActor = { type: AuditActorType; id: string | null; name: string | null }
+
+export const SYSTEM_ACTOR: AuditActor = { type: "system", id: null, name: null }
+
+export function userActor(user: Pick<User, "discord_id" | "name">): AuditActor {
+  return { type: "user", id: user.discord_id, name: user.name }
+}
+
+/** A bot call is attributed to the Discord member it acts for, falling back to the token itself */
+export function tokenActor(token: Pick<ApiToken, "id" | "name">, callerDiscordId?: string | null): AuditActor {
+  return callerDiscordId
+    ? { type: "discord", id: String(callerDiscordId), name: null }
+    : { type: "api_token", id: String(token.id), name: token.name }
+}
+
+// Bookkeeping columns that change on every write and say nothing about the edit
+const IGNORED_FIELDS = new Set(["updated_at", "last_activity_at"])
+
+// Any row shape; interfaces from lib/types have no index signature, so fields are read through a cast
+type Row = object | null | undefined
+
+/** Fields whose values differ between `before` and `after`; a create diffs against null, a delete to null */
+export function diffRecords(before: Row, after: Row): Record<string, { before: unknown; after: unknown }> {
+  const prev = (before ?? {}) as Record<string, unknown>
+  const next = (after ?? {}) as Record<string, unknown>
+  const changes: Record<string, { before: unknown; after: unknown }> = {}
+  for (const field of new Set([...Object.keys(prev), ...Object.keys(next)])) {
+    if (IGNORED_FIELDS.has(field)) continue
+    const b = prev[field] ?? null
+    const a = next[field] ?? null
+    if (JSON.stringify(b) !== JSON.stringify(a)) changes[field] = { before: b, after: a }
+  }
+  return changes
+}
+
+export async function recordAuditEvent(event: {
+  actor: AuditActor
+  action: string
+  entityType: string
+  entityId: string | number | null
+  projectId?: number | null
+  before?: Row
+  after?: Row
+  metadata?: Record<string, unknown> | null
+}): Promise<void> {
+  try {
+    await sql/*sql*/`
+      INSERT INTO audit_events
+        (actor_type, actor_id, actor_name, action, entity_type, entity_id, project_id, changes, metadata)
+      VALUES (
+        ${event.actor.type}, ${event.actor.id}, ${event.actor.name},
+        ${event.action}, ${event.entityType}, ${event.entityId === null ? null : String(event.entityId)},
+        ${event.projectId ?? null},
+        ${JSON.stringify(diffRecords(event.before, event.after))}::jsonb,
+        ${event.metadata ? JSON.stringify(event.metadata) : null}::jsonb
+      )
+    `
+  } catch (e) {
+    console.error("[audit] failed to record", event.action, e)
+  }
+}
+
+export type AuditEventFilter = {
+  action?: string | null
+  entityType?: string | null
+  entityId?: string | null
+  actor?: string | null
+  projectId?: number | null
+  /** id cursor: only events older than this one */
+  beforeId?: number | null
+  limit?: number
+}
+
+export async function listAuditEvents(filter: AuditEventFilter = {}): Promise<AuditEvent[]> {
+  const { action = null, entityType = null, entityId = null, actor = null, projectId = null, beforeId = null } = filter
+  const limit = Math.min(Math.max(filter.limit ?? 50, 1), 200)
+  return (await sql/*sql*/`
+    SELECT * FROM audit_events
+    WHERE (${action}::text IS NULL OR action = ${action})
+      AND (${entityType}::text IS NULL OR entity_type = ${entityType})
+      AND (${entityId}::text IS NULL OR entity_id = ${entityId})
+      AND (${actor}::text IS NULL OR actor_id = ${actor} OR actor_name ILIKE ${actor})
+      AND (${projectId}::int IS NULL OR project_id = ${projectId})
+      AND (${beforeId}::bigint IS NULL OR id < ${beforeId})
+    ORDER BY id DESC
+    LIMIT ${limit}
+  `) as AuditEvent[]
+}
@@ -0,0 +1,79 @@
+import "server-only"
+import { cookies } from "next/headers"
+import { config } from "@/configs/config"
+import { sql } from "@/lib/db"
+import { ApiError } from "@/lib/api-helpers"
+import { SESSION_COOKIE, verifySession } from "@/lib/session"
+import { getStaffRole } from "@/lib/staff"
+import type { User } from "@/lib/types"
+
+/** Short-lived cookie tying the Discord redirect back to the browser that started it */
+export const OAUTH_STATE_COOKIE = "p6_oauth_state"
+
+// Stand-in origin: a `next` that resolves anywhere else (//host, /\host, ...) would leave the site
+const NEXT_BASE = "http://next.invalid"
+
+/** Only same-site paths are allowed as the post-login destination; anything else falls back to /admin */
+export function safeNextPath(next: string | null | undefined) {
+  if (!next || !next.startsWith("/") || next.includes("\\")) return "/admin"
+  try {
+    const url = new URL(next, NEXT_BASE)
+    return url.origin === NEXT_BASE ? url.pathname + url.search + url.hash : "/admin"
+  } catch {
+    return "/admin"
+  }
+}
+
+/**
+ * Who is calling, from the session cookie set by /api/auth/discord/callback.
+ * The role is read from the users table on every call, so a demotion takes effect before the cookie expires.
+ */
+export async function getSessionUser(): Promise<User | null> {
+  const session = await verifySession(cookies().get(SESSION_COOKIE)?.value)
+  if (!session) return null
+
+  const [user] = (await sql/*sql*/`
+    SELECT * FROM users WHERE id = ${session.sub} AND discord_id = ${session.discord_id}
+  `) as User[]
+  return user ?? null
+}
+
+/** The signed-in user, or ApiError 401 (no session) / 403 (role too low) */
+export async function requireRole(role: User["role"] = "admin"): Promise<User> {
+  const user = await getSessionUser()
+  if (!user) throw new ApiError(401, "Sign in required")
+  if (role === "admin" && user.role !== "admin") throw new ApiError(403, "Admin role required")
+  return user
+}
+
+type DiscordProfile = {
+  id: string
+  username: string
+  global_name?: string | null
+  email?: string | null
+  avatar?: string | null
+}
+
+/** Create or refresh the account for a Discord sign-in; ADMIN_DISCORD_IDS and registry admins are promoted */
+export async function upsertDiscordUser(profile: DiscordProfile): Promise<User> {
+  const promote = config.adminDiscordIds.includes(profile.id) || (await getStaffRole(profile.id)) === "admin"
+  const [user] = (await sql/*sql*/`
+    INSERT INTO users (discord_id, name, email, avatar, role, last_login_at)
+    VALUES (
+      ${profile.id},
+      ${profile.global_name || profile.username},
+      ${profile.email ?? null},
+      ${profile.avatar ?? null},
+      ${promote ? "admin" : "user"},
+      NOW()
+    )
+    ON CONFLICT (discord_id) DO UPDATE
+    SET name = EXCLUDED.name,
+        email = COALESCE(EXCLUDED.email, users.email),
+        avatar = EXCLUDED.avatar,
+        role = CASE WHEN ${promote} THEN 'admin' ELSE users.role END,
+        last_login_at = NOW()
+    RETURNING *
+  `) as User[]
+  return user!
+}
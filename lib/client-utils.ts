@@ -62,7 +62,7 @@ export function sortProjects(projects: Project[], sortOrder: string): Project[]
         return bOverdue ? 1 : aOverdue ? -1 : 0
       })
     case "at-risk":
-      return sorted.sort((a, b) => (b.progress_percentage || 0) - (a.progress_percentage || 0))
+      return sorted.sort((a, b) => Number(b.risk_status === "at_risk") - Number(a.risk_status === "at_risk"))
     default:
       return sorted.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
   }
@@ -77,53 +77,28 @@ export function paginateItems<T>(items: T[], currentPage: number, itemsPerPage:
   return { currentItems, totalPages, startIndex, endIndex }
 }
 
-function norm(s?: string | null): string {
-  return (s || "")
-    .trim()
-    .toLowerCase()
-    .replace(/[_\s]+/g, "-")
-}
-
 function isOverdueMilestone(m: Milestone): boolean {
   if (!m.due_date) return false
   const due = new Date(m.due_date).getTime()
   const now = Date.now()
-  const status = norm(m.status)
   // overdue if past due and not completed
-  return due < now && status !== "completed"
-}
-
-/** Define "at risk":
- * - has a milestone due within 7 days AND
- * - that milestone is not completed and progress < 50 (or undefined)
- */
-function isAtRisk(projectId: number, all: Milestone[]): boolean {
-  const oneWeek = 7 * 24 * 60 * 60 * 1000
-  const now = Date.now()
-
-  return all.some((m) => {
-    if (m.project_id !== projectId || !m.due_date) return false
-    const due = new Date(m.due_date).getTime()
-    const status = norm(m.status)
-    const progress = typeof m.progress === "number" ? m.progress : 0
-    const dueSoon = due >= now && due <= now + oneWeek
-    return dueSoon && status !== "completed" && progress < 50
-  })
+  return due < now && m.status !== "completed"
 }
 
 /** Choose the "current milestone" status for filtering buckets */
 function currentMilestoneStatus(projectId: number, all: Milestone[]): string {
   const list = all.filter((m) => m.project_id === projectId).sort((a, b) => (a.ordinal ?? a.id) - (b.ordinal ?? b.id))
   if (list.length === 0) return "pending"
-  const current = list.find((m) => norm(m.status) !== "completed")
-  return current ? norm(current.status) : "completed"
+  const current = list.find((m) => m.status !== "completed")
+  return current ? current.status : "completed"
 }
 
 /** Your new, clear behavior:
  * - "new"        -> sort by created_at DESC
  * - "oldest"     -> sort by created_at ASC
  * - "overdue"    -> FILTER only projects that HAVE any overdue milestone (order: newest first)
- * - "at-risk"    -> FILTER only projects that match isAtRisk (order: nearest end_date first)
+ * - "at-risk"    -> FILTER only projects the latest risk scan flagged (server-side risk policy;
+ *                   order: nearest end_date first)
  * - "not-started"-> FILTER only projects whose current milestone status is "not-started"/"pending"
  *                   (order: created_at DESC)
  */
@@ -140,7 +115,7 @@ export function filterAndSortProjects(projects: Project[], milestones: Milestone
     }
 
     case "at-risk": {
-      const only = sortedCopy.filter((p) => isAtRisk(p.id, milestones))
+      const only = sortedCopy.filter((p) => p.risk_status === "at_risk")
       // Optional ordering: earlier end_date first, then created_at
       return only.sort((a, b) => {
         const ae = a.end_date ? new Date(a.end_date).getTime() : Number.POSITIVE_INFINITY
@@ -157,7 +132,7 @@ export function filterAndSortProjects(projects: Project[], milestones: Milestone
           return statusFromMilestones === "completed" // has milestones, all done
         }
         // no milestones → fall back to project.status
-        return norm(p.status) === "completed"
+        return p.status === "completed"
       })
       // Optional: most recently updated first
       return only.sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())
@@ -17,12 +17,12 @@ export const DATE_FORMAT_LONG = {
   day: "numeric" as const,
 }
 
-// Status values
-export const PROJECT_STATUSES = ["active", "completed", "on-hold", "planning", "review"] as const
-export const MILESTONE_STATUSES = ["pending", "in-progress", "completed", "overdue", "not-started"] as const
+// Status values, enforced by CHECK constraints (scripts/22-status-enums.sql); allowed changes between them are in
+// lib/status-transitions.ts
+export const PROJECT_STATUSES = ["active", "on-hold", "completed"] as const
+export const MILESTONE_STATUSES = ["pending", "not-started", "in-progress", "overdue", "completed"] as const
 
-// Progress thresholds
-export const AT_RISK_THRESHOLD = 30
+// Progress thresholds ("at risk" lives in lib/risk-policy.ts)
 export const LOW_PROGRESS_THRESHOLD = 50
 
 // Currency formatting
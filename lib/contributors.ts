@@ -0,0 +1,128 @@
+import "server-only"
+import { createHmac } from "crypto"
+import { sql } from "@/lib/db"
+import { githubGet, isExcludedAuthor, NO_ACTIVITY_FILTER } from "@/lib/github"
+import type { GitHubIdentity, ProjectContributor, ProjectContributors } from "@/lib/types"
+
+/**
+ * Who does the work on a project, from the GitHub activity in activity_logs (webhooks, risk scan, backfill).
+ * Authors are matched to Discord identities through github_identities (/link-github in the bot), falling back
+ * to a login that equals the project's creator_username. A link only counts once its owner has proven the login
+ * (linkGitHubIdentity); until then it is shown as self-claimed and never makes anyone the grantee.
+ */
+
+export async function getProjectContributors(projectId: number): Promise<ProjectContributors> {
+  const rows = await sql/*sql*/`
+    WITH authors AS (
+      SELECT
+        lower(a.author) AS key,
+        (array_agg(a.author ORDER BY a."timestamp" DESC))[1] AS login,
+        COUNT(*) FILTER (WHERE a.activity_type = 'commit')::int AS commits,
+        COUNT(*) FILTER (WHERE a.activity_type = 'pull_request_opened')::int AS pull_requests,
+        COUNT(*) FILTER (WHERE a.activity_type = 'merge')::int AS merges,
+        COUNT(*) FILTER (WHERE a.activity_type = 'pull_request_review')::int AS reviews,
+        COUNT(*)::int AS total,
+        MIN(a."timestamp") AS first_active_at,
+        MAX(a."timestamp") AS last_active_at,
+        array_remove(array_agg(DISTINCT a.metadata->>'repo'), NULL) AS repos
+      FROM activity_logs a
+      WHERE a.project_id = ${projectId}
+        AND a.source = 'github'
+        AND COALESCE(trim(a.author), '') <> ''
+      GROUP BY lower(a.author)
+    )
+    SELECT
+      au.*,
+      i.discord_id AS linked_discord_id,
+      i.discord_username AS linked_discord_username,
+      i.verified_at IS NOT NULL AS link_verified,
+      p.creator_username,
+      p.assignee_discord_id
+    FROM authors au
+    CROSS JOIN (
+      SELECT creator_username, assignee_discord_id FROM projects WHERE id = ${projectId} AND deleted_at IS NULL
+    ) p
+    LEFT JOIN github_identities i ON i.github_login = au.key
+    ORDER BY au.commits DESC, au.total DESC, au.last_active_at DESC
+  `
+
+  const contributors: ProjectContributor[] = rows
+    .filter((r: any) => !isExcludedAuthor(NO_ACTIVITY_FILTER, r.login))
+    .map((r: any) => {
+      const creator = (r.creator_username as string | null)?.toLowerCase() ?? null
+      const linked = !!r.linked_discord_id && r.link_verified === true
+      const byUsername = !linked && !!creator && r.key === creator
+      const selfClaimed = !linked && !byUsername && !!r.linked_discord_id
+
+      const discordId: string | null =
+        linked || selfClaimed ? r.linked_discord_id : byUsername ? r.assignee_discord_id : null
+      const discordUsername: string | null =
+        linked || selfClaimed ? r.linked_discord_username : byUsername ? r.creator_username : null
+      const isGrantee =
+        byUsername ||
+        (linked &&
+          ((!!r.assignee_discord_id && discordId === r.assignee_discord_id) ||
+            (!!creator && discordUsername?.toLowerCase() === creator)))
+
+      return {
+        login: r.login,
+        commits: r.commits,
+        pull_requests: r.pull_requests,
+        merges: r.merges,
+        reviews: r.reviews,
+        total: r.total,
+        first_active_at: r.first_active_at,
+        last_active_at: r.last_active_at,
+        repos: r.repos ?? [],
+        discord_id: discordId,
+        discord_username: discordUsername,
+        matched_by: linked ? "linked" : byUsername ? "creator_username" : selfClaimed ? "self_claimed" : null,
+        is_grantee: isGrantee,
+      }
+    })
+
+  const totalCommits = contributors.reduce((n, c) => n + c.commits, 0)
+  const granteeCommits = contributors.filter((c) => c.is_grantee).reduce((n, c) => n + c.commits, 0)
+
+  return {
+    contributors,
+    grantee_commit_share: totalCommits > 0 ? Math.round((granteeCommits / totalCommits) * 100) : null,
+  }
+}
+
+/** The code a Discord member puts in the login's GitHub profile bio to prove they own it */
+export function githubLinkChallenge(githubLogin: string, discordId: string) {
+  const secret = process.env.SESSION_SECRET
+  if (!secret) throw new Error("SESSION_SECRET is not set")
+  const digest = createHmac("sha256", secret).update(`${githubLogin.toLowerCase()}:${discordId}`).digest("hex")
+  return `p6-link-${digest.slice(0, 12)}`
+}
+
+/**
+ * Link a GitHub login to a Discord user (one Discord user can own several logins). The link is verified when the
+ * login's GitHub bio contains the member's challenge code, otherwise it is self-claimed. A login linked to another
+ * member is only taken over by a verified claim; `identity` is null when this claim was refused.
+ */
+export async function linkGitHubIdentity(
+  githubLogin: string,
+  discordId: string,
+  discordUsername: string | null,
+): Promise<{ identity: GitHubIdentity | null; challenge: string }> {
+  const login = githubLogin.toLowerCase()
+  const challenge = githubLinkChallenge(login, discordId)
+  const profile = await githubGet<{ bio?: string | null }>(`/users/${login}`)
+  const verifiedAt = profile.bio?.includes(challenge) ? new Date() : null
+
+  const [row] = (await sql/*sql*/`
+    INSERT INTO github_identities (github_login, discord_id, discord_username, verified_at)
+    VALUES (${login}, ${discordId}, ${discordUsername}, ${verifiedAt})
+    ON CONFLICT (github_login) DO UPDATE
+    SET discord_id = EXCLUDED.discord_id,
+        discord_username = EXCLUDED.discord_username,
+        verified_at = COALESCE(EXCLUDED.verified_at, github_identities.verified_at),
+        updated_at = NOW()
+    WHERE github_identities.discord_id = EXCLUDED.discord_id OR EXCLUDED.verified_at IS NOT NULL
+    RETURNING *
+  `) as GitHubIdentity[]
+  return { identity: row ?? null, challenge }
+}
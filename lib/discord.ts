@@ -0,0 +1,171 @@
+import "server-only"
+import { config } from "@/configs/config"
+import { sql } from "@/lib/db"
+import type { DiscordWebhookPayload } from "@/lib/types"
+
+const DISCORD_API = "https://discord.com/api/v10"
+
+// Channel types that are threads (their messages belong to the parent channel)
+const THREAD_CHANNEL_TYPES = new Set([10, 11, 12])
+
+// Message types written by people: DEFAULT and REPLY. Everything else is a system message (joins, pins, boosts, ...)
+const USER_MESSAGE_TYPES = new Set([0, 19])
+
+/** "<#123>" | "https://discord.com/channels/<guild>/123" | "123" -> "123" (null when not a channel id) */
+export function normalizeDiscordChannel(channel?: string | null): string | null {
+  if (!channel) return null
+  const c = channel.trim()
+  const mention = c.match(/^<#(\d{15,25})>$/)
+  if (mention) return mention[1]!
+  const url = c.match(/^https?:\/\/(?:\w+\.)?discord(?:app)?\.com\/channels\/\d+\/(\d{15,25})\/?$/i)
+  if (url) return url[1]!
+  if (/^\d{15,25}$/.test(c)) return c
+  return null
+}
+
+/** Bot, webhook and system messages are not project activity */
+export function isUserMessage(payload: DiscordWebhookPayload): boolean {
+  if (payload.author?.bot || payload.author?.system) return false
+  if (payload.webhook_id) return false
+  if (payload.type !== undefined && !USER_MESSAGE_TYPES.has(payload.type)) return false
+  return true
+}
+
+/** Parent channel id when `channelId` is a thread, otherwise null */
+export async function resolveThreadParent(channelId: string): Promise<string | null> {
+  if (!config.discordBotToken) return null
+  try {
+    const res = await fetch(`${DISCORD_API}/channels/${channelId}`, {
+      headers: { Authorization: `Bot ${config.discordBotToken}` },
+      cache: "no-store",
+    })
+    if (!res.ok) return null
+    const channel = (await res.json()) as { type?: number; parent_id?: string | null }
+    return channel.type !== undefined && THREAD_CHANNEL_TYPES.has(channel.type) ? channel.parent_id ?? null : null
+  } catch {
+    return null
+  }
+}
+
+/** Role ids of a guild member; null when the user is not in the guild or the lookup failed */
+export async function getGuildMemberRoles(userId: string): Promise<string[] | null> {
+  if (!config.discordBotToken || !config.guildId) return null
+  try {
+    const res = await fetch(`${DISCORD_API}/guilds/${config.guildId}/members/${userId}`, {
+      headers: { Authorization: `Bot ${config.discordBotToken}` },
+      cache: "no-store",
+    })
+    if (!res.ok) return null
+    const member = (await res.json()) as { roles?: string[] }
+    return member.roles ?? []
+  } catch {
+    return null
+  }
+}
+
+/** Post a normal (persistent) message in a channel using the bot token. Returns an error message, or null when sent */
+export async function postChannelMessage(channelId: string, content: string): Promise<string | null> {
+  if (!config.discordBotToken) return "bot_token_not_configured"
+  try {
+    const res = await fetch(`${DISCORD_API}/channels/${channelId}/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bot ${config.discordBotToken}`,
+      },
+      body: JSON.stringify({ content, allowed_mentions: { parse: ["users", "roles"] } }),
+    })
+    if (!res.ok) {
+      const txt = await res.text().catch(() => "")
+      console.error("[discord] failed to post channel message:", res.status, txt)
+      return `discord_error:${res.status}`
+    }
+    return null
+  } catch (e: any) {
+    return `discord_error:${e?.message || "unknown"}`
+  }
+}
+
+/** DM a user: open (or reuse) the DM channel, then post into it */
+export async function sendDirectMessage(userId: string, content: string): Promise<string | null> {
+  if (!config.discordBotToken) return "bot_token_not_configured"
+  try {
+    const res = await fetch(`${DISCORD_API}/users/@me/channels`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bot ${config.discordBotToken}`,
+      },
+      body: JSON.stringify({ recipient_id: userId }),
+    })
+    if (!res.ok) {
+      const txt = await res.text().catch(() => "")
+      console.error("[discord] failed to open DM channel:", res.status, txt)
+      return `discord_error:${res.status}`
+    }
+    const channel = (await res.json()) as { id: string }
+    return await postChannelMessage(channel.id, content)
+  } catch (e: any) {
+    return `discord_error:${e?.message || "unknown"}`
+  }
+}
+
+/** Guild member id for a project's creator_username (exact username/display name/nick match, else the top hit) */
+export async function resolveDiscordUserIdByUsername(username?: string | null): Promise<string | null> {
+  if (!username || !config.discordBotToken || !config.guildId) return null
+  try {
+    const q = encodeURIComponent(username.trim())
+    const resp = await fetch(`${DISCORD_API}/guilds/${config.guildId}/members/search?query=${q}&limit=5`, {
+      headers: { Authorization: `Bot ${config.discordBotToken}` },
+      cache: "no-store",
+    })
+    if (!resp.ok) {
+      return null
+    }
+    const members = (await resp.json()) as Array<{
+      user: { id: string; username?: string; global_name?: string }
+      nick?: string
+    }>
+    if (!Array.isArray(members) || members.length === 0) return null
+
+    const lc = username.toLowerCase()
+    // Exact matches only: the search is a prefix match, and its first hit may be someone else entirely
+    const match = members.find(
+      (m) =>
+        (m.user?.username && m.user.username.toLowerCase() === lc) ||
+        (m.user?.global_name && m.user.global_name.toLowerCase() === lc) ||
+        (m.nick && m.nick.toLowerCase() === lc),
+    )
+
+    return match?.user?.id ?? null
+  } catch (e) {
+    return null
+  }
+}
+
+/** Every channel linked via projects.discord_channel, skipping projects that opted out of message ingestion */
+export async function listLinkedChannels(): Promise<Array<{ projectId: number; channelId: string }>> {
+  const rows = await sql/*sql*/`
+    SELECT id, discord_channel
+    FROM projects
+    WHERE discord_channel IS NOT NULL AND discord_channel <> ''
+      AND discord_ingest_opt_out = FALSE AND deleted_at IS NULL
+  `
+  return rows.flatMap((p: any) => {
+    const channelId = normalizeDiscordChannel(p.discord_channel)
+    return channelId ? [{ projectId: p.id as number, channelId }] : []
+  })
+}
+
+/** Projects whose discord_channel points at the given channel id (and that have not opted out) */
+export async function findProjectsByChannel(channelId: string): Promise<Array<{ id: number; name: string }>> {
+  const rows = await sql/*sql*/`
+    SELECT id, name, discord_channel
+    FROM projects
+    WHERE discord_channel IS NOT NULL AND discord_channel <> ''
+      AND discord_ingest_opt_out = FALSE AND deleted_at IS NULL
+  `
+  return rows
+    .filter((p: any) => normalizeDiscordChannel(p.discord_channel) === channelId)
+    .map((p: any) => ({ id: p.id, name: p.name }))
+}
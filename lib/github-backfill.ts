@@ -0,0 +1,299 @@
+import "server-only"
+import { sql } from "@/lib/db"
+import { activityExists, insertActivityLog, type NewActivityLog } from "@/lib/activity-logs"
+import {
+  branchCounts,
+  filteredBranches,
+  GitHubRateLimitError,
+  githubPaginatePages,
+  isExcludedAuthor,
+  type RepoActivityFilter,
+} from "@/lib/github"
+import type {
+  GitHubBackfill,
+  GitHubBackfillCursor,
+  GitHubCommit,
+  GitHubPullRequest,
+  GitHubRelease,
+} from "@/lib/types"
+
+/**
+ * Imports each linked repo's history (commits, pull requests, releases since the project's start_date)
+ * into activity_logs, within the repo's branch/author filter. Each pass inserts at most `maxItems` rows and skips anything already recorded
+ * (same project, type and URL, which is what the webhook writes too), so passes repeat until the
+ * history is complete. A source longer than MAX_PAGES is read in slices: once a pass has gone through a slice
+ * without hitting the cap, the job's cursor moves past it and the job stays pending until every source is read.
+ */
+
+export const BACKFILL_MAX_ITEMS_PER_RUN = 200
+
+// Upper bound on list pages fetched per source in one pass (100 items each)
+const MAX_PAGES = 20
+
+type BackfillItem = Omit<NewActivityLog, "projectId" | "source">
+
+type CursorDraft = { commits: Record<string, string | null>; pulls_page?: number | null; releases_page?: number | null }
+
+/** Whether any source still has pages left past the cursor */
+function hasMoreHistory(cursor: GitHubBackfillCursor) {
+  return (
+    Object.values(cursor.commits ?? {}).some((until) => until !== null) ||
+    cursor.pulls_page != null ||
+    cursor.releases_page != null
+  )
+}
+
+function firstLine(message: string | null | undefined) {
+  return (message || "").split("\n")[0]?.trim() || ""
+}
+
+/**
+ * Match the project's imports to its linked repos: queue newly linked repos, drop unlinked ones. Repos match
+ * case-insensitively; a re-cased link keeps its import, which takes the new spelling.
+ */
+export async function queueGitHubBackfills(projectId: number) {
+  await sql/*sql*/`
+    DELETE FROM github_backfills b
+    WHERE b.project_id = ${projectId}
+      AND NOT EXISTS (
+        SELECT 1 FROM project_repositories r
+        WHERE r.project_id = b.project_id AND lower(r.repo) = lower(b.repo)
+      )
+  `
+  await sql/*sql*/`
+    INSERT INTO github_backfills (project_id, repo)
+    SELECT project_id, repo FROM project_repositories
+    WHERE project_id = ${projectId}
+    ON CONFLICT (project_id, lower(repo)) DO UPDATE SET repo = EXCLUDED.repo
+  `
+}
+
+export async function listGitHubBackfills(projectId: number): Promise<GitHubBackfill[]> {
+  return (await sql/*sql*/`
+    SELECT * FROM github_backfills
+    WHERE project_id = ${projectId}
+    ORDER BY created_at ASC
+  `) as GitHubBackfill[]
+}
+
+/** Imports that still have work left, oldest pass first */
+export async function listPendingGitHubBackfills(limit: number): Promise<Array<{ projectId: number; repo: string }>> {
+  const rows = await sql/*sql*/`
+    SELECT project_id, repo FROM github_backfills
+    WHERE (status = 'pending' OR (status = 'running' AND last_run_at < NOW() - INTERVAL '15 minutes'))
+      AND project_id IN (SELECT id FROM projects WHERE deleted_at IS NULL)
+    ORDER BY last_run_at ASC NULLS FIRST
+    LIMIT ${limit}
+  `
+  return rows.map((r: any) => ({ projectId: r.project_id as number, repo: r.repo as string }))
+}
+
+/**
+ * The history after `cursor`. Before yielding a source's items it records in `next` where that source
+ * continues, so `next` is only complete once the generator has been read to the end.
+ */
+async function* historyItems(
+  repo: string,
+  since: Date,
+  filter: RepoActivityFilter,
+  cursor: GitHubBackfillCursor,
+  next: CursorDraft,
+): AsyncGenerator<BackfillItem> {
+  const sinceIso = since.toISOString()
+
+  // The default branch, or each branch the filter names; commits on several branches are deduped by URL
+  for (const branch of await filteredBranches(repo, filter)) {
+    const key = branch ?? ""
+    const until = cursor.commits?.[key]
+    if (until === null) {
+      next.commits[key] = null
+      continue
+    }
+    // Newest first, so a truncated list resumes below the oldest commit it returned
+    const { items: commits, nextPage } = await githubPaginatePages<GitHubCommit>(
+      `/repos/${repo}/commits`,
+      { since: sinceIso, until, sha: branch ?? undefined },
+      { maxPages: MAX_PAGES },
+    )
+    const oldest = commits[commits.length - 1]
+    const oldestDate = oldest?.commit.committer?.date ?? oldest?.commit.author?.date ?? null
+    next.commits[key] = nextPage ? oldestDate : null
+    for (const c of commits) {
+      if (isExcludedAuthor(filter, c.author?.login, c.commit.author?.name)) continue
+      yield {
+        activityType: "commit",
+        title: firstLine(c.commit.message) || "Commit",
+        description: c.commit.message,
+        url: c.html_url,
+        author: c.author?.login ?? c.commit.author?.name ?? null,
+        timestamp: c.commit.author?.date ?? c.commit.committer?.date ?? null,
+        metadata: { repo, sha: c.sha, branch, via: "backfill" },
+      }
+    }
+  }
+
+  // Most recently updated first; anything last touched before the start date is older history
+  let pulls: GitHubPullRequest[] = []
+  if (cursor.pulls_page === null) {
+    next.pulls_page = null
+  } else {
+    const listed = await githubPaginatePages<GitHubPullRequest>(
+      `/repos/${repo}/pulls`,
+      { state: "all", sort: "updated", direction: "desc" },
+      {
+        maxPages: MAX_PAGES,
+        startPage: cursor.pulls_page,
+        stopAt: (pr) => !!pr.updated_at && new Date(pr.updated_at) < since,
+      },
+    )
+    pulls = listed.items
+    next.pulls_page = listed.nextPage
+  }
+  for (const pr of pulls) {
+    if (!branchCounts(filter, pr.base?.ref) || isExcludedAuthor(filter, pr.user?.login)) continue
+    const metadata = {
+      repo,
+      pr_number: pr.number,
+      head: pr.head?.ref ?? null,
+      base: pr.base?.ref ?? null,
+      via: "backfill",
+    }
+    if (new Date(pr.created_at) >= since) {
+      yield {
+        activityType: "pull_request_opened",
+        title: `Opened PR #${pr.number}: ${pr.title}`,
+        url: pr.html_url,
+        author: pr.user?.login ?? null,
+        timestamp: pr.created_at,
+        metadata,
+      }
+    }
+    if (pr.merged_at && new Date(pr.merged_at) >= since) {
+      yield {
+        activityType: "merge",
+        title: pr.title || `Merged PR #${pr.number}`,
+        description: `PR #${pr.number} merged`,
+        url: pr.html_url,
+        author: pr.merged_by?.login ?? pr.user?.login ?? null,
+        timestamp: pr.merged_at,
+        metadata: { ...metadata, merge_commit_sha: pr.merge_commit_sha ?? null },
+      }
+    }
+  }
+
+  // Releases are listed newest first
+  let releases: GitHubRelease[] = []
+  if (cursor.releases_page === null) {
+    next.releases_page = null
+  } else {
+    const listed = await githubPaginatePages<GitHubRelease>(
+      `/repos/${repo}/releases`,
+      {},
+      {
+        maxPages: MAX_PAGES,
+        startPage: cursor.releases_page,
+        stopAt: (r) => new Date(r.published_at ?? r.created_at ?? 0) < since,
+      },
+    )
+    releases = listed.items
+    next.releases_page = listed.nextPage
+  }
+  for (const r of releases) {
+    if (r.draft || isExcludedAuthor(filter, r.author?.login)) continue
+    yield {
+      activityType: "release",
+      title: `Released ${r.name || r.tag_name}`,
+      description: r.body || null,
+      url: r.html_url,
+      author: r.author?.login ?? null,
+      timestamp: r.published_at ?? r.created_at ?? null,
+      metadata: { repo, release_tag: r.tag_name, release_id: r.id, prerelease: !!r.prerelease, via: "backfill" },
+    }
+  }
+}
+
+/**
+ * One capped import pass for one of a project's repos.
+ * The import stays "pending" while the cap was hit or history remains past the page limit (another pass is
+ * needed), or GitHub rate-limited us.
+ */
+export async function runGitHubBackfill(
+  projectId: number,
+  repo: string,
+  { maxItems = BACKFILL_MAX_ITEMS_PER_RUN }: { maxItems?: number } = {},
+): Promise<{ backfill: GitHubBackfill | null; imported: number; skipped: number }> {
+  const [job] = await sql/*sql*/`
+    UPDATE github_backfills b
+    SET status = 'running', last_run_at = NOW(), error = NULL
+    FROM projects p
+    WHERE b.project_id = ${projectId} AND lower(b.repo) = lower(${repo})
+      AND p.id = b.project_id AND p.deleted_at IS NULL
+    RETURNING b.repo, b.cursor, p.start_date, p.created_at
+  `
+  if (!job) return { backfill: null, imported: 0, skipped: 0 }
+
+  const [link] = await sql/*sql*/`
+    SELECT branches, excluded_authors FROM project_repositories
+    WHERE project_id = ${projectId} AND lower(repo) = lower(${repo})
+  `
+  // Unlinked since it was queued: importing it without the link's filter would record activity the project
+  // no longer tracks. queueGitHubBackfills drops the row when the project's repositories next change.
+  if (!link) {
+    const [backfill] = (await sql/*sql*/`
+      UPDATE github_backfills
+      SET status = 'failed', error = 'repository_unlinked'
+      WHERE project_id = ${projectId} AND lower(repo) = lower(${repo})
+      RETURNING *
+    `) as GitHubBackfill[]
+    return { backfill: backfill ?? null, imported: 0, skipped: 0 }
+  }
+
+  const since = new Date(job.start_date ?? job.created_at)
+  const filter: RepoActivityFilter = { branches: link.branches ?? [], excludedAuthors: link.excluded_authors ?? [] }
+  const cursor: GitHubBackfillCursor = job.cursor ?? {}
+  const next: CursorDraft = { commits: {} }
+  let imported = 0
+  let skipped = 0
+  let capped = false
+
+  try {
+    for await (const item of historyItems(job.repo, since, filter, cursor, next)) {
+      if (await activityExists(projectId, item.activityType, item.url ?? null)) {
+        skipped++
+        continue
+      }
+      if (imported >= maxItems) {
+        capped = true
+        break
+      }
+      await insertActivityLog({ ...item, projectId, source: "github" })
+      imported++
+    }
+
+    // A capped pass has not read its slice to the end, so the cursor only moves on an uncapped one
+    const saved = capped ? cursor : next
+    const truncated = capped || hasMoreHistory(next)
+    await sql/*sql*/`
+      UPDATE github_backfills
+      SET status = ${truncated ? "pending" : "completed"},
+          imported_count = imported_count + ${imported},
+          cursor = ${hasMoreHistory(saved) ? JSON.stringify(saved) : null},
+          completed_at = ${truncated ? null : new Date()}
+      WHERE project_id = ${projectId} AND lower(repo) = lower(${repo})
+    `
+  } catch (e: any) {
+    const rateLimited = e instanceof GitHubRateLimitError
+    await sql/*sql*/`
+      UPDATE github_backfills
+      SET status = ${rateLimited ? "pending" : "failed"},
+          imported_count = imported_count + ${imported},
+          error = ${e?.message || "unknown error"}
+      WHERE project_id = ${projectId} AND lower(repo) = lower(${repo})
+    `
+  }
+
+  const [backfill] = (await sql/*sql*/`
+    SELECT * FROM github_backfills WHERE project_id = ${projectId} AND lower(repo) = lower(${repo})
+  `) as GitHubBackfill[]
+  return { backfill: backfill ?? null, imported, skipped }
+}
@@ -1,33 +1,412 @@
 import "server-only"
 import { config } from "@/configs/config"
+import { sql } from "@/lib/db"
+import type { GitHubBranch, GitHubCommit, GitHubIssue, GitHubPullRequest } from "@/lib/types"
 
-function ghHeaders() {
-  return {
+const GITHUB_API = "https://api.github.com"
+
+/** Longest we sleep for a rate limit before giving up on a request */
+const MAX_RATE_LIMIT_WAIT_MS = 60_000
+
+/** Requests left in the window that we keep for webhooks and interactive calls */
+const RATE_LIMIT_RESERVE = 25
+
+export class GitHubApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message)
+    this.name = "GitHubApiError"
+  }
+}
+
+export class GitHubRateLimitError extends GitHubApiError {
+  constructor(public resetAt: Date) {
+    super(429, `GitHub rate limit exhausted until ${resetAt.toISOString()}`)
+    this.name = "GitHubRateLimitError"
+  }
+}
+
+// Last rate-limit headers seen by this process
+const rateLimit = { remaining: null as number | null, resetAt: 0 }
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function ghHeaders(etag?: string | null) {
+  const headers: Record<string, string> = {
     Accept: "application/vnd.github+json",
-    Authorization: `Bearer ${config.githubToken}`,
+    "User-Agent": "v0-p6",
     "X-GitHub-Api-Version": "2022-11-28",
   }
+  if (config.githubToken) headers.Authorization = `Bearer ${config.githubToken}`
+  if (etag) headers["If-None-Match"] = etag
+  return headers
 }
 
+function recordRateLimit(res: Response) {
+  const remaining = res.headers.get("x-ratelimit-remaining")
+  const reset = res.headers.get("x-ratelimit-reset")
+  if (remaining !== null) rateLimit.remaining = Number(remaining)
+  if (reset !== null) rateLimit.resetAt = Number(reset) * 1000
+}
 
-export async function hasRecentGitHubActivity(repo: string, sinceISO: string): Promise<boolean> {
-  if (!config.githubToken || !repo) return false
+/** Wait for the window to reset when the quota is (nearly) spent, or throw if that is too far off */
+async function awaitQuota() {
+  if (rateLimit.remaining === null || rateLimit.remaining > RATE_LIMIT_RESERVE) return
+  const waitMs = rateLimit.resetAt - Date.now()
+  if (waitMs <= 0) return
+  if (waitMs > MAX_RATE_LIMIT_WAIT_MS) throw new GitHubRateLimitError(new Date(rateLimit.resetAt))
+  await sleep(waitMs)
+  rateLimit.remaining = null
+}
+
+/** How long a 403/429 asks us to back off, or null when the response is not a rate limit */
+function rateLimitBackoff(res: Response): number | null {
+  if (res.status !== 403 && res.status !== 429) return null
+  const retryAfter = res.headers.get("retry-after")
+  if (retryAfter !== null) return Math.max(0, Number(retryAfter) * 1000)
+  if (res.headers.get("x-ratelimit-remaining") === "0") return Math.max(0, rateLimit.resetAt - Date.now())
+  return res.status === 429 ? 60_000 : null
+}
+
+/** `<https://api.github.com/...&page=2>; rel="next", ...` -> next page URL */
+function nextPageUrl(link: string | null): string | null {
+  if (!link) return null
+  const m = link.split(",").find((part) => /rel="next"/.test(part))?.match(/<([^>]+)>/)
+  return m ? m[1]! : null
+}
+
+type GitHubPage<T> = { data: T; link: string | null; notModified: boolean }
+
+/**
+ * GET a GitHub API URL.
+ * Sends the stored ETag so unchanged resources come back as 304 (which do not count against the quota)
+ * and are answered from github_etags.
+ */
+async function githubFetch<T>(url: string): Promise<GitHubPage<T>> {
+  const [cached] = (await sql/*sql*/`
+    SELECT etag, body, link FROM github_etags WHERE url = ${url}
+  `) as Array<{ etag: string; body: T; link: string | null }>
+
+  for (let attempt = 0; ; attempt++) {
+    await awaitQuota()
+    const res = await fetch(url, { headers: ghHeaders(cached?.etag), cache: "no-store" })
+    recordRateLimit(res)
+
+    if (res.status === 304 && cached) return { data: cached.body, link: cached.link, notModified: true }
+
+    if (res.ok) {
+      const data = (await res.json()) as T
+      const link = res.headers.get("link")
+      const etag = res.headers.get("etag")
+      if (etag) {
+        await sql/*sql*/`
+          INSERT INTO github_etags (url, etag, body, link, updated_at)
+          VALUES (${url}, ${etag}, ${JSON.stringify(data)}, ${link}, NOW())
+          ON CONFLICT (url) DO UPDATE
+          SET etag = EXCLUDED.etag, body = EXCLUDED.body, link = EXCLUDED.link, updated_at = NOW()
+        `
+      }
+      return { data, link, notModified: false }
+    }
+
+    const backoff = rateLimitBackoff(res)
+    if (backoff !== null) {
+      if (attempt > 0 || backoff > MAX_RATE_LIMIT_WAIT_MS) {
+        throw new GitHubRateLimitError(new Date(Date.now() + backoff))
+      }
+      await sleep(backoff)
+      continue
+    }
+
+    const text = await res.text().catch(() => "")
+    throw new GitHubApiError(res.status, `GitHub ${res.status} for ${url}: ${text.slice(0, 200)}`)
+  }
+}
+
+function apiUrl(path: string, params: Record<string, string | number | undefined> = {}) {
+  const url = new URL(`${GITHUB_API}${path}`)
+  for (const [k, v] of Object.entries(params)) if (v !== undefined) url.searchParams.set(k, String(v))
+  return url.toString()
+}
+
+/** One page of a GitHub list/resource */
+export async function githubGet<T>(path: string, params?: Record<string, string | number | undefined>): Promise<T> {
+  return (await githubFetch<T>(apiUrl(path, params))).data
+}
+
+/**
+ * Follow `Link: rel="next"` through a list endpoint.
+ * Stops after `maxPages`, or at the first item for which `stopAt` returns true (that item is not included).
+ */
+export async function githubPaginate<T>(
+  path: string,
+  params: Record<string, string | number | undefined> = {},
+  opts: { maxPages?: number; stopAt?: (item: T) => boolean } = {},
+): Promise<T[]> {
+  return (await githubPaginatePages(path, params, opts)).items
+}
+
+/**
+ * githubPaginate from page `startPage` (1-based). `nextPage` is where to continue when `maxPages` ran out
+ * before the list did; null once the list, or `stopAt`, ended it.
+ */
+export async function githubPaginatePages<T>(
+  path: string,
+  params: Record<string, string | number | undefined> = {},
+  opts: { maxPages?: number; startPage?: number; stopAt?: (item: T) => boolean } = {},
+): Promise<{ items: T[]; nextPage: number | null }> {
+  const { maxPages = 10, startPage = 1, stopAt } = opts
+  const items: T[] = []
+  let url: string | null = apiUrl(path, { per_page: 100, ...params, page: startPage > 1 ? startPage : undefined })
+
+  let page = 0
+  for (; url && page < maxPages; page++) {
+    const res: GitHubPage<T[]> = await githubFetch<T[]>(url)
+    for (const item of res.data) {
+      if (stopAt?.(item)) return { items, nextPage: null }
+      items.push(item)
+    }
+    url = nextPageUrl(res.link)
+  }
+  return { items, nextPage: url ? startPage + page : null }
+}
 
-  const full = repo.replace(/^https?:\/\/github\.com\//i, "").replace(/\.git$/i, "")
-  const base = `https://api.github.com/repos/${full}`
+/** "https://github.com/owner/repo(.git)" | "owner/repo" -> "owner/repo" (null when unparseable) */
+export function normalizeRepo(repo?: string | null): string | null {
+  if (!repo) return null
+  const r = repo.trim()
+  const m = r.match(/^https?:\/\/github\.com\/([^/\s]+)\/([^/\s]+?)(?:\.git|\/)?$/i)
+  if (m) return `${m[1]}/${m[2]}`
+  if (/^[^/\s]+\/[^/\s]+$/.test(r)) return r
+  return null
+}
+
+/** Projects that link the given "owner/repo" (GitHub names are case-insensitive), with that link's activity filter */
+export async function findProjectsByRepo(
+  fullName: string,
+): Promise<Array<{ id: number; name: string; filter: RepoActivityFilter }>> {
+  const target = normalizeRepo(fullName)
+  if (!target) return []
+
+  const rows = await sql/*sql*/`
+    SELECT DISTINCT ON (p.id) p.id, p.name, r.branches, r.excluded_authors
+    FROM project_repositories r
+    JOIN projects p ON p.id = r.project_id
+    WHERE lower(r.repo) = lower(${target}) AND p.deleted_at IS NULL
+    ORDER BY p.id, r.position
+  `
+  return rows.map((r: any) => ({
+    id: r.id as number,
+    name: r.name as string,
+    filter: { branches: r.branches ?? [], excludedAuthors: r.excluded_authors ?? [] },
+  }))
+}
+
+// ---------- activity filters ----------
+
+/** Which activity in a linked repo counts for its project (see project_repositories) */
+export type RepoActivityFilter = {
+  /** Branch names or "*" patterns, e.g. "main", "release/*"; empty = every branch */
+  branches: readonly string[]
+  /** Logins or patterns ignored on top of DEPENDENCY_BOTS */
+  excludedAuthors: readonly string[]
+}
+
+export const NO_ACTIVITY_FILTER: RepoActivityFilter = { branches: [], excludedAuthors: [] }
+
+/** Automated dependency bumps that should not keep a dormant project "active" (compared without a "[bot]" suffix) */
+export const DEPENDENCY_BOTS = [
+  "dependabot",
+  "dependabot-preview",
+  "renovate",
+  "renovate-bot",
+  "snyk-bot",
+  "greenkeeper",
+  "depfu",
+  "pyup-bot",
+]
+
+// Branches resolved from "*" patterns per repo and check; keeps the number of commit lookups bounded
+const MAX_FILTERED_BRANCHES = 10
+
+/** "release/*" -> /^release\/.*$/i */
+function globMatches(pattern: string, value: string) {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*")
+  return new RegExp(`^${source}$`, "i").test(value)
+}
+
+export function branchCounts(filter: RepoActivityFilter, branch: string | null | undefined) {
+  if (filter.branches.length === 0 || !branch) return true
+  return filter.branches.some((pattern) => globMatches(pattern, branch))
+}
+
+/** Whether any of the names GitHub gives for an author (login, git author name) is a bot or excluded author */
+export function isExcludedAuthor(filter: RepoActivityFilter, ...names: Array<string | null | undefined>) {
+  return names.some((name) => {
+    if (!name) return false
+    const bare = name.toLowerCase().replace(/\[bot\]$/, "")
+    if (DEPENDENCY_BOTS.includes(bare)) return true
+    return filter.excludedAuthors.some((pattern) => globMatches(pattern, name) || globMatches(pattern, bare))
+  })
+}
+
+/** Branch names of `repo` matching the filter, or [null] (the default branch) when the filter has none */
+export async function filteredBranches(repo: string, filter: RepoActivityFilter): Promise<Array<string | null>> {
+  if (filter.branches.length === 0) return [null]
+  const exact = filter.branches.filter((b) => !b.includes("*"))
+  if (exact.length === filter.branches.length) return exact.slice(0, MAX_FILTERED_BRANCHES)
+
+  const branches = await githubPaginate<GitHubBranch>(`/repos/${repo}/branches`, {}, { maxPages: 3 })
+  const names = new Set(exact)
+  for (const b of branches) if (branchCounts(filter, b.name)) names.add(b.name)
+  return [...names].slice(0, MAX_FILTERED_BRANCHES)
+}
+
+// ---------- repository activity ----------
+
+export type GitHubCommitSummary = {
+  sha: string
+  message: string | null
+  /** GitHub login; null when GitHub could not match the commit's email to an account */
+  authorLogin: string | null
+  authorName: string | null
+  date: string | null
+  url: string | null
+}
+
+export type GitHubPrSummary = {
+  number: number
+  title: string | null
+  state: string
+  merged: boolean
+  updatedAt: string | null
+  mergedAt: string | null
+  url: string | null
+}
+
+export type GitHubActivityCheck = {
+  ok: boolean
+  reason?: string
+  commitActivity?: boolean
+  pullActivity?: boolean
+  lastCommit?: GitHubCommitSummary | null
+  lastMergedPr?: GitHubPrSummary | null
+}
+
+function failureReason(step: string, e: any) {
+  if (e instanceof GitHubRateLimitError) return "rate_limited"
+  if (e instanceof GitHubApiError) return `${step}_check_failed:${e.status}`
+  return `github_error:${e?.message || "unknown"}`
+}
+
+function commitAuthorNames(c: GitHubCommit) {
+  return [c.author?.login, c.commit.author?.name]
+}
+
+/**
+ * Latest commit and most recently merged PR of "owner/repo", and whether each falls on or after `sinceIso`.
+ * Only commits on the filter's branches (default branch when it has none) and PRs into them count, and
+ * bot/excluded authors are skipped.
+ */
+export async function checkRepoActivity(
+  repo: string,
+  sinceIso: string,
+  filter: RepoActivityFilter = NO_ACTIVITY_FILTER,
+): Promise<GitHubActivityCheck> {
+  if (!repo || !repo.includes("/")) return { ok: false, reason: "invalid_repo_format" }
+  const sinceDate = new Date(sinceIso)
+
+  let lastCommit: GitHubCommitSummary | null = null
+  let commitActivity = false
+  try {
+    for (const branch of await filteredBranches(repo, filter)) {
+      // A page of recent commits, so a run of bot commits does not hide the latest human one
+      const commits = await githubGet<GitHubCommit[]>(`/repos/${repo}/commits`, {
+        sha: branch ?? undefined,
+        per_page: 30,
+      })
+      const c = commits.find((commit) => !isExcludedAuthor(filter, ...commitAuthorNames(commit)))
+      if (!c) continue
+      const date = c.commit.author?.date ?? c.commit.committer?.date ?? null
+      if (lastCommit && (!date || (lastCommit.date && new Date(lastCommit.date) >= new Date(date)))) continue
+      lastCommit = {
+        sha: c.sha,
+        message: c.commit.message ?? null,
+        authorLogin: c.author?.login ?? null,
+        authorName: c.commit.author?.name ?? c.author?.login ?? c.commit.committer?.name ?? null,
+        date,
+        url: c.html_url ?? null,
+      }
+    }
+    commitActivity = !!lastCommit?.date && new Date(lastCommit.date) >= sinceDate
+  } catch (e: any) {
+    return { ok: false, reason: failureReason("commits", e) }
+  }
+
+  let lastMergedPr: GitHubPrSummary | null = null
+  let pullActivity = false
+  try {
+    // Sorted by update time, so the first merged PR is the most recent one; stop paging once PRs predate the window
+    const pulls = await githubPaginate<GitHubPullRequest>(
+      `/repos/${repo}/pulls`,
+      { state: "all", sort: "updated", direction: "desc", per_page: 30 },
+      { maxPages: 3, stopAt: (pr) => !!pr.updated_at && new Date(pr.updated_at) < sinceDate },
+    )
+    const merged = pulls.find(
+      (pr) => !!pr.merged_at && branchCounts(filter, pr.base?.ref) && !isExcludedAuthor(filter, pr.user?.login),
+    )
+    if (merged) {
+      lastMergedPr = {
+        number: merged.number,
+        title: merged.title ?? null,
+        state: merged.state ?? "closed",
+        merged: true,
+        updatedAt: merged.updated_at ?? null,
+        mergedAt: merged.merged_at ?? null,
+        url: merged.html_url ?? null,
+      }
+      const compare = merged.merged_at ?? merged.updated_at
+      pullActivity = !!compare && new Date(compare) >= sinceDate
+    }
+  } catch (e: any) {
+    return { ok: false, reason: failureReason("prs", e), commitActivity, lastCommit }
+  }
+
+  return { ok: true, commitActivity, pullActivity, lastCommit, lastMergedPr }
+}
+
+/** Any commit, pull request or issue activity on the repo since `sinceISO` */
+export async function hasRecentGitHubActivity(repo: string, sinceISO: string): Promise<boolean> {
+  const full = normalizeRepo(repo)
+  if (!full) return false
 
-  const endpoints = [
-    `${base}/commits?since=${encodeURIComponent(sinceISO)}&per_page=1`,
-    `${base}/pulls?state=all&sort=updated&direction=desc&per_page=1`,
-    `${base}/issues?since=${encodeURIComponent(sinceISO)}&state=all&per_page=1`,
+  const since = new Date(sinceISO)
+  const checks = [
+    () => githubGet<GitHubCommit[]>(`/repos/${full}/commits`, { since: sinceISO, per_page: 1 }),
+    async () => {
+      const prs = await githubGet<GitHubPullRequest[]>(`/repos/${full}/pulls`, {
+        state: "all",
+        sort: "updated",
+        direction: "desc",
+        per_page: 1,
+      })
+      return prs.filter((pr) => !!pr.updated_at && new Date(pr.updated_at) >= since)
+    },
+    () => githubGet<GitHubIssue[]>(`/repos/${full}/issues`, { since: sinceISO, state: "all", per_page: 1 }),
   ]
 
-  for (const url of endpoints) {
-    const res = await fetch(url, { headers: ghHeaders(), cache: "no-store" })
-    if (!res.ok) continue
-    const data = await res.json()
-    if (Array.isArray(data) && data.length > 0) {
-      return true
+  for (const check of checks) {
+    try {
+      if ((await check()).length > 0) return true
+    } catch {
+      continue
     }
   }
   return false
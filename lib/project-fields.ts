@@ -0,0 +1,113 @@
+import "server-only"
+import { sql } from "@/lib/db"
+import { parseInput } from "@/lib/api-helpers"
+import { projectCreateSchema, projectInputSchema } from "@/lib/schemas"
+import type { Project, ProjectStatus } from "@/lib/types"
+
+/**
+ * Editable project columns, validated the same way for POST /api/projects (every field) and
+ * PATCH /api/projects/:id (only the fields present in the body). Repositories are parsed separately by
+ * parseRepositoryInput, and end_date is derived from start_date + duration by the caller.
+ */
+export type ProjectFieldValues = {
+  name?: string | null
+  description?: string | null
+  status?: ProjectStatus
+  github_repo?: string | null
+  proposal_link?: string | null
+  discord_channel?: string | null
+  discord_ingest_opt_out?: boolean
+  funding_amount?: number | null
+  start_date?: string | null
+  end_date?: string | null
+  assignee_discord_id?: string | null
+  creator_username?: string | null
+  grantee_email?: string | null
+  category?: string | null
+  program_type?: string | null
+  project_background?: string | null
+  mission_expertise?: string | null
+  campaign_goals?: string | null
+  creator_stat_1_name?: string | null
+  creator_stat_1_number?: number | null
+  creator_stat_2_name?: string | null
+  creator_stat_2_number?: number | null
+  youtube_link?: string | null
+  tiktok_link?: string | null
+  twitter_link?: string | null
+  twitch_link?: string | null
+  website_links?: string | null
+  duration?: string | null
+}
+
+/**
+ * Validate a create/update body into column values with the shared schemas in lib/schemas.ts; invalid fields
+ * throw an ApiError listing the errors per field. With `partial`, only keys present in `body` are returned;
+ * otherwise every column gets a value (missing ones become null, status defaults to "active").
+ * `requireName` (default: when not partial) validates against the whole-project schema.
+ */
+export function parseProjectInput(
+  body: unknown,
+  { partial, requireName = !partial }: { partial: boolean; requireName?: boolean },
+): ProjectFieldValues {
+  const input = parseInput(requireName ? projectCreateSchema : projectInputSchema, body)
+  const out: Record<string, unknown> = partial
+    ? { ...input }
+    : { ...Object.fromEntries(Object.keys(projectInputSchema.shape).map((key) => [key, null])), ...input }
+
+  // The create form's "background" is both the description and project_background
+  if ("description" in out) out.project_background = out.description
+  if (!partial) {
+    out.status ??= "active"
+    out.discord_ingest_opt_out ??= false
+  }
+
+  return out as ProjectFieldValues
+}
+
+/**
+ * Apply `values` to a live project; columns not in `values` keep their current value.
+ * jsonb_populate_record overlays the JSON onto the current row, so an explicit null clears a column.
+ */
+export async function updateProjectFields(projectId: number, values: ProjectFieldValues): Promise<Project | null> {
+  const [row] = (await sql/*sql*/`
+    UPDATE projects p
+    SET name = r.name,
+        description = r.description,
+        status = r.status,
+        github_repo = r.github_repo,
+        proposal_link = r.proposal_link,
+        discord_channel = r.discord_channel,
+        discord_ingest_opt_out = r.discord_ingest_opt_out,
+        funding_amount = r.funding_amount,
+        start_date = r.start_date,
+        end_date = r.end_date,
+        assignee_discord_id = r.assignee_discord_id,
+        creator_username = r.creator_username,
+        grantee_email = r.grantee_email,
+        category = r.category,
+        program_type = r.program_type,
+        project_background = r.project_background,
+        mission_expertise = r.mission_expertise,
+        campaign_goals = r.campaign_goals,
+        creator_stat_1_name = r.creator_stat_1_name,
+        creator_stat_1_number = r.creator_stat_1_number,
+        creator_stat_2_name = r.creator_stat_2_name,
+        creator_stat_2_number = r.creator_stat_2_number,
+        youtube_link = r.youtube_link,
+        tiktok_link = r.tiktok_link,
+        twitter_link = r.twitter_link,
+        twitch_link = r.twitch_link,
+        website_links = r.website_links,
+        duration = r.duration,
+        updated_at = NOW()
+    FROM (
+      SELECT (jsonb_populate_record(cur, ${JSON.stringify(values)}::jsonb)).*
+      FROM projects cur
+      WHERE cur.id = ${projectId} AND cur.deleted_at IS NULL
+    ) r
+    WHERE p.id = r.id
+    RETURNING p.*
+  `) as Project[]
+  return row ?? null
+}
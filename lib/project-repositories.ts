@@ -0,0 +1,98 @@
+import "server-only"
+import { sql } from "@/lib/db"
+import { ApiError } from "@/lib/api-helpers"
+import { normalizeRepo } from "@/lib/github"
+import type { ProjectRepository } from "@/lib/types"
+
+/** A repo as sent by the admin forms: "owner/repo" or a github.com URL, with an optional label and activity filter */
+export type RepositoryInput = { repo: string; label: string | null; branches: string[]; excludedAuthors: string[] }
+
+const MAX_REPOSITORIES = 20
+const MAX_FILTER_ENTRIES = 20
+
+/** A list of branch/author patterns: an array or a comma-separated string */
+function parsePatternList(value: unknown, field: string, repo: string): string[] {
+  if (value == null || value === "") return []
+  const items = typeof value === "string" ? value.split(",") : value
+  if (!Array.isArray(items) || items.some((v) => typeof v !== "string")) {
+    throw new ApiError(400, `${field} for ${repo} must be a list of strings`)
+  }
+  const out = [...new Set((items as string[]).map((v) => v.trim()).filter(Boolean))]
+  if (out.length > MAX_FILTER_ENTRIES || out.some((v) => v.length > 100)) {
+    throw new ApiError(400, `${field} for ${repo} takes at most ${MAX_FILTER_ENTRIES} entries of up to 100 characters`)
+  }
+  return out
+}
+
+/**
+ * Validate `repositories` from a request body (strings or { repo, label, branches, excluded_authors } objects),
+ * plus the legacy single `github_repo`. Duplicates (GitHub names are case-insensitive) are dropped.
+ */
+export function parseRepositoryInput(repositories: unknown, legacyRepo?: unknown): RepositoryInput[] {
+  const raw: unknown[] = []
+  if (repositories != null) {
+    if (!Array.isArray(repositories)) throw new ApiError(400, "repositories must be an array")
+    raw.push(...repositories)
+  }
+  if (typeof legacyRepo === "string" && legacyRepo.trim()) raw.unshift(legacyRepo)
+
+  const seen = new Set<string>()
+  const out: RepositoryInput[] = []
+  for (const item of raw) {
+    const value = typeof item === "string" ? item : (item as { repo?: unknown } | null)?.repo
+    const fields = typeof item === "object" && item ? (item as Record<string, unknown>) : {}
+    const label = fields.label ?? null
+    if (typeof value !== "string" || !value.trim()) continue
+
+    const repo = normalizeRepo(value)
+    if (!repo) throw new ApiError(400, `Invalid GitHub repository: ${value}`)
+    if (label != null && (typeof label !== "string" || label.length > 100)) {
+      throw new ApiError(400, `Repository label for ${repo} must be a string of at most 100 characters`)
+    }
+    if (seen.has(repo.toLowerCase())) continue
+    seen.add(repo.toLowerCase())
+    out.push({
+      repo,
+      label: typeof label === "string" && label.trim() ? label.trim() : null,
+      branches: parsePatternList(fields.branches, "branches", repo),
+      excludedAuthors: parsePatternList(fields.excluded_authors, "excluded_authors", repo),
+    })
+  }
+
+  if (out.length > MAX_REPOSITORIES) throw new ApiError(400, `At most ${MAX_REPOSITORIES} repositories per project`)
+  return out
+}
+
+export async function listProjectRepositories(projectId: number): Promise<ProjectRepository[]> {
+  return (await sql/*sql*/`
+    SELECT * FROM project_repositories
+    WHERE project_id = ${projectId}
+    ORDER BY position ASC, id ASC
+  `) as ProjectRepository[]
+}
+
+/** Replace the project's linked repos (in order) and keep projects.github_repo pointing at the first */
+export async function setProjectRepositories(projectId: number, repos: RepositoryInput[]): Promise<ProjectRepository[]> {
+  const names = repos.map((r) => r.repo.toLowerCase())
+  await sql/*sql*/`
+    DELETE FROM project_repositories
+    WHERE project_id = ${projectId} AND NOT (lower(repo) = ANY(${names}))
+  `
+
+  for (const [position, r] of repos.entries()) {
+    await sql/*sql*/`
+      INSERT INTO project_repositories (project_id, repo, label, branches, excluded_authors, position)
+      VALUES (${projectId}, ${r.repo}, ${r.label}, ${r.branches}, ${r.excludedAuthors}, ${position})
+      ON CONFLICT (project_id, lower(repo)) DO UPDATE
+      SET repo = EXCLUDED.repo, label = EXCLUDED.label, branches = EXCLUDED.branches,
+          excluded_authors = EXCLUDED.excluded_authors, position = EXCLUDED.position
+    `
+  }
+
+  await sql/*sql*/`
+    UPDATE projects
+    SET github_repo = ${repos[0]?.repo ?? null}, updated_at = NOW()
+    WHERE id = ${projectId}
+  `
+  return listProjectRepositories(projectId)
+}
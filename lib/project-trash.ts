@@ -0,0 +1,138 @@
+import "server-only"
+import { config } from "@/configs/config"
+import { sql } from "@/lib/db"
+import type { Milestone, Project, TrashedMilestone, TrashedProject } from "@/lib/types"
+
+/**
+ * Project deletion is soft: DELETE /api/projects/:id sets deleted_at and every list/detail query skips the row.
+ * Admins restore or purge from /admin/trash; projects still in the trash after the retention window are purged
+ * by /api/cron/trash-purge. Purging removes the row, and ON DELETE CASCADE takes milestones and activity with it.
+ * Milestones deleted on their own (DELETE /api/milestones/:id) go through the same trash and retention window.
+ */
+
+const retentionDays = () =>
+  Number.isFinite(config.projectTrashRetentionDays) && config.projectTrashRetentionDays > 0
+    ? config.projectTrashRetentionDays
+    : 30
+
+/** Move a live project to the trash; null when it does not exist or is already trashed */
+export async function trashProject(projectId: number, deletedBy: string | null): Promise<Project | null> {
+  const [row] = (await sql/*sql*/`
+    UPDATE projects
+    SET deleted_at = NOW(), deleted_by = ${deletedBy}
+    WHERE id = ${projectId} AND deleted_at IS NULL
+    RETURNING *
+  `) as Project[]
+  return row ?? null
+}
+
+/** Take a project out of the trash; `trashed` carries the deletion it undid */
+export async function restoreProject(
+  projectId: number,
+): Promise<{ project: Project; trashed: Pick<Project, "deleted_at" | "deleted_by"> } | null> {
+  // The FROM subquery reads the row as it was before this UPDATE
+  const [row] = await sql/*sql*/`
+    UPDATE projects p
+    SET deleted_at = NULL, deleted_by = NULL, updated_at = NOW()
+    FROM (SELECT id, deleted_at, deleted_by FROM projects WHERE id = ${projectId}) old
+    WHERE p.id = old.id AND p.deleted_at IS NOT NULL
+    RETURNING p.*, old.deleted_at AS trashed_at, old.deleted_by AS trashed_by
+  `
+  if (!row) return null
+  const { trashed_at, trashed_by, ...project } = row
+  return { project: project as Project, trashed: { deleted_at: trashed_at, deleted_by: trashed_by } }
+}
+
+/** Permanently delete a trashed project; live projects must be trashed first */
+export async function purgeProject(projectId: number): Promise<Project | null> {
+  const [row] = (await sql/*sql*/`
+    DELETE FROM projects WHERE id = ${projectId} AND deleted_at IS NOT NULL RETURNING *
+  `) as Project[]
+  return row ?? null
+}
+
+export async function listTrashedProjects(): Promise<TrashedProject[]> {
+  return (await sql/*sql*/`
+    SELECT
+      p.id, p.name, p.deleted_at, p.deleted_by,
+      p.deleted_at + make_interval(days => ${retentionDays()}) AS purge_after,
+      (SELECT COUNT(*)::int FROM milestones m WHERE m.project_id = p.id AND m.deleted_at IS NULL) AS milestone_count,
+      (SELECT COUNT(*)::int FROM activity_logs a WHERE a.project_id = p.id) AS activity_count
+    FROM projects p
+    WHERE p.deleted_at IS NOT NULL
+    ORDER BY p.deleted_at DESC
+  `) as TrashedProject[]
+}
+
+/** Purge every project whose retention window has passed; returns the purged rows */
+export async function purgeExpiredProjects(): Promise<Project[]> {
+  return (await sql/*sql*/`
+    DELETE FROM projects
+    WHERE deleted_at IS NOT NULL AND deleted_at < NOW() - make_interval(days => ${retentionDays()})
+    RETURNING *
+  `) as Project[]
+}
+
+/** Move a live milestone of a live project to the trash; null when there is no such milestone */
+export async function trashMilestone(milestoneId: number, deletedBy: string | null): Promise<Milestone | null> {
+  const [row] = (await sql/*sql*/`
+    UPDATE milestones
+    SET deleted_at = NOW(), deleted_by = ${deletedBy}
+    WHERE id = ${milestoneId}
+      AND deleted_at IS NULL
+      AND project_id IN (SELECT id FROM projects WHERE deleted_at IS NULL)
+    RETURNING *
+  `) as Milestone[]
+  return row ?? null
+}
+
+/**
+ * Take a milestone out of the trash; `trashed` carries the deletion it undid.
+ * Null when it is not in the trash or its project is (restore the project first).
+ */
+export async function restoreMilestone(
+  milestoneId: number,
+): Promise<{ milestone: Milestone; trashed: Pick<Milestone, "deleted_at" | "deleted_by"> } | null> {
+  const [row] = await sql/*sql*/`
+    UPDATE milestones m
+    SET deleted_at = NULL, deleted_by = NULL, updated_at = NOW()
+    FROM (SELECT id, deleted_at, deleted_by FROM milestones WHERE id = ${milestoneId}) old
+    WHERE m.id = old.id
+      AND m.deleted_at IS NOT NULL
+      AND m.project_id IN (SELECT id FROM projects WHERE deleted_at IS NULL)
+    RETURNING m.*, old.deleted_at AS trashed_at, old.deleted_by AS trashed_by
+  `
+  if (!row) return null
+  const { trashed_at, trashed_by, ...milestone } = row
+  return { milestone: milestone as Milestone, trashed: { deleted_at: trashed_at, deleted_by: trashed_by } }
+}
+
+/** Permanently delete a trashed milestone */
+export async function purgeMilestone(milestoneId: number): Promise<Milestone | null> {
+  const [row] = (await sql/*sql*/`
+    DELETE FROM milestones WHERE id = ${milestoneId} AND deleted_at IS NOT NULL RETURNING *
+  `) as Milestone[]
+  return row ?? null
+}
+
+export async function listTrashedMilestones(): Promise<TrashedMilestone[]> {
+  return (await sql/*sql*/`
+    SELECT
+      m.id, m.project_id, p.name AS project_name, m.title, m.deleted_at, m.deleted_by,
+      m.deleted_at + make_interval(days => ${retentionDays()}) AS purge_after,
+      p.deleted_at IS NOT NULL AS project_deleted
+    FROM milestones m
+    JOIN projects p ON p.id = m.project_id
+    WHERE m.deleted_at IS NOT NULL
+    ORDER BY m.deleted_at DESC
+  `) as TrashedMilestone[]
+}
+
+/** Purge every milestone whose retention window has passed; returns the purged rows */
+export async function purgeExpiredMilestones(): Promise<Milestone[]> {
+  return (await sql/*sql*/`
+    DELETE FROM milestones
+    WHERE deleted_at IS NOT NULL AND deleted_at < NOW() - make_interval(days => ${retentionDays()})
+    RETURNING *
+  `) as Milestone[]
+}
@@ -0,0 +1,155 @@
+import "server-only"
+import { config } from "@/configs/config"
+import { sql } from "@/lib/db"
+import { normalizeDiscordChannel, postChannelMessage, sendDirectMessage } from "@/lib/discord"
+import type { RiskScanFinal } from "@/lib/types"
+
+/**
+ * Discord notifications for projects that turn at risk.
+ * An alert opens on the first at-risk scan and climbs the ladder below while the project stays at risk;
+ * each step is sent once, so repeated scans stay quiet between steps.
+ */
+
+type NotificationTarget = "assignee_dm" | "project_channel" | "admin_channel"
+
+interface EscalationStep {
+  level: number
+  /** Days since the alert opened before this step is sent */
+  afterDays: number
+  targets: NotificationTarget[]
+}
+
+export const RISK_ESCALATION_LADDER: readonly EscalationStep[] = [
+  { level: 1, afterDays: 0, targets: ["assignee_dm", "project_channel"] },
+  { level: 2, afterDays: 7, targets: ["assignee_dm", "project_channel"] },
+  { level: 3, afterDays: 14, targets: ["assignee_dm", "admin_channel"] },
+]
+
+/** A project that recovers and slips back within this many days continues its old alert instead of starting over */
+export const RISK_ALERT_REOPEN_DAYS = 3
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type RiskAlert = {
+  id: number
+  project_id: number
+  level: number
+  opened_at: string
+  last_notified_at: string | null
+  resolved_at: string | null
+}
+
+type NotifiedProject = {
+  id: number
+  name: string
+  assignee_discord_id: string | null
+  discord_channel: string | null
+}
+
+type Outcome = { final: RiskScanFinal; note: string; score: number | null }
+
+async function getOpenAlert(projectId: number): Promise<RiskAlert | null> {
+  const [alert] = (await sql/*sql*/`
+    SELECT * FROM risk_alerts
+    WHERE project_id = ${projectId} AND resolved_at IS NULL
+  `) as RiskAlert[]
+  return alert ?? null
+}
+
+async function openAlert(projectId: number): Promise<RiskAlert> {
+  const [reopened] = (await sql/*sql*/`
+    UPDATE risk_alerts
+    SET resolved_at = NULL
+    WHERE id = (
+      SELECT id FROM risk_alerts
+      WHERE project_id = ${projectId}
+        AND resolved_at >= NOW() - make_interval(days => ${RISK_ALERT_REOPEN_DAYS}::int)
+      ORDER BY resolved_at DESC
+      LIMIT 1
+    )
+    RETURNING *
+  `) as RiskAlert[]
+  if (reopened) return reopened
+
+  const [alert] = (await sql/*sql*/`
+    INSERT INTO risk_alerts (project_id)
+    VALUES (${projectId})
+    RETURNING *
+  `) as RiskAlert[]
+  return alert!
+}
+
+function buildMessage(step: EscalationStep, project: NotifiedProject, outcome: Outcome, daysOpen: number) {
+  const score = outcome.score == null ? "" : ` (health ${outcome.score}/100)`
+  const link = config.backendUrl ? `\n${config.backendUrl}/individual-project?id=${project.id}` : ""
+  const days = `${daysOpen} day${daysOpen === 1 ? "" : "s"}`
+
+  if (step.level === 1) {
+    return `⚠️ **${project.name}** is now **at risk**${score}: ${outcome.note}${link}`
+  }
+  if (step.targets.includes("admin_channel")) {
+    const role = config.discordAdminRoleId ? `<@&${config.discordAdminRoleId}> ` : ""
+    const assignee = project.assignee_discord_id ? ` · assignee <@${project.assignee_discord_id}>` : ""
+    return `🚨 ${role}**${project.name}** has been at risk for ${days}${score}${assignee}: ${outcome.note}${link}`
+  }
+  return `⚠️ Reminder: **${project.name}** has been at risk for ${days}${score}: ${outcome.note}${link}`
+}
+
+async function deliver(target: NotificationTarget, project: NotifiedProject, content: string) {
+  const projectChannel = normalizeDiscordChannel(project.discord_channel)
+  const adminChannel = config.discordAdminChannelId || null
+  switch (target) {
+    case "assignee_dm": {
+      const userId = project.assignee_discord_id
+      if (!userId) return { recipient: null, error: "no_assignee" }
+      return { recipient: userId, error: await sendDirectMessage(userId, content) }
+    }
+    case "project_channel":
+      // Projects without a linked channel report to the admin channel instead
+      if (projectChannel) return { recipient: projectChannel, error: await postChannelMessage(projectChannel, content) }
+      if (!adminChannel) return { recipient: null, error: "no_channel" }
+      return { recipient: adminChannel, error: await postChannelMessage(adminChannel, content) }
+    case "admin_channel":
+      if (!adminChannel) return { recipient: null, error: "admin_channel_not_configured" }
+      return { recipient: adminChannel, error: await postChannelMessage(adminChannel, content) }
+  }
+}
+
+/** Open, escalate or resolve the project's alert for a scan outcome, sending whatever the ladder says is due */
+export async function notifyRiskOutcome(runId: number, project: NotifiedProject, outcome: Outcome) {
+  if (outcome.final === "too_new") return
+
+  if (outcome.final === "active") {
+    await sql/*sql*/`
+      UPDATE risk_alerts
+      SET resolved_at = NOW()
+      WHERE project_id = ${project.id} AND resolved_at IS NULL
+    `
+    return
+  }
+
+  const alert = (await getOpenAlert(project.id)) ?? (await openAlert(project.id))
+  const daysOpen = Math.floor((Date.now() - new Date(alert.opened_at).getTime()) / DAY_MS)
+
+  // Only the highest step that is due is sent, so a missed scan does not produce a burst of messages
+  const step = [...RISK_ESCALATION_LADDER]
+    .reverse()
+    .find((s) => s.level > alert.level && daysOpen >= s.afterDays)
+  if (!step) return
+
+  const content = buildMessage(step, project, outcome, daysOpen)
+  for (const target of step.targets) {
+    const { recipient, error } = await deliver(target, project, content)
+    const status = error === null ? "sent" : recipient ? "failed" : "skipped"
+    await sql/*sql*/`
+      INSERT INTO risk_notifications (alert_id, project_id, run_id, level, target, recipient, status, error)
+      VALUES (${alert.id}, ${project.id}, ${runId}, ${step.level}, ${target}, ${recipient}, ${status}, ${error})
+    `
+  }
+
+  await sql/*sql*/`
+    UPDATE risk_alerts
+    SET level = ${step.level}, last_notified_at = NOW()
+    WHERE id = ${alert.id}
+  `
+}
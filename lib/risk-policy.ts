@@ -0,0 +1,222 @@
+import "server-only"
+import type { RiskFactor, RiskScanFinal } from "@/lib/types"
+
+/**
+ * The single definition of "at risk".
+ * The risk scan evaluates it per project; the dashboard and the Discord bot read the stored outcome.
+ */
+
+export interface RiskPolicy {
+  /** Look-back window for activity signals */
+  readonly windowDays: number
+  /** Projects younger than this are reported as "too_new" instead of being judged */
+  readonly gracePeriodDays: number
+  /** Points each signal contributes when present (overdue milestones subtract, per milestone) */
+  readonly weights: {
+    readonly githubCommits: number
+    readonly mergedPrs: number
+    readonly discordUpdates: number
+    readonly overdueMilestones: number
+  }
+  /** A project whose activity score is below this is at risk */
+  readonly atRiskBelow: number
+  /** Relative weight of each health-score factor (normalized so the score is 0–100) */
+  readonly healthWeights: Readonly<Record<RiskFactor["key"], number>>
+  /** A project whose 0–100 health score is below this is at risk even with recent activity */
+  readonly atRiskScoreBelow: number
+}
+
+export const DEFAULT_RISK_POLICY: RiskPolicy = {
+  windowDays: 30,
+  gracePeriodDays: 30,
+  weights: {
+    githubCommits: 1,
+    mergedPrs: 1,
+    discordUpdates: 1,
+    overdueMilestones: 0.5,
+  },
+  atRiskBelow: 1,
+  healthWeights: {
+    activity_recency: 40,
+    milestone_slippage: 25,
+    funding_vs_progress: 20,
+    deadline: 15,
+  },
+  atRiskScoreBelow: 40,
+}
+
+type RiskPolicyOverride = Partial<Omit<RiskPolicy, "weights" | "healthWeights">> & {
+  weights?: Partial<RiskPolicy["weights"]>
+  healthWeights?: Partial<RiskPolicy["healthWeights"]>
+}
+
+/** Per projects.program_type overrides, merged over the default */
+export const PROGRAM_TYPE_RISK_POLICIES: Readonly<Record<string, RiskPolicyOverride>> = {
+  // Programs with sub-projects have no milestones of their own and report less often
+  program: {
+    windowDays: 45,
+    weights: { overdueMilestones: 0 },
+    healthWeights: { milestone_slippage: 0 },
+  },
+}
+
+export function getRiskPolicy(programType?: string | null): RiskPolicy {
+  const override = programType ? PROGRAM_TYPE_RISK_POLICIES[programType.trim().toLowerCase()] : undefined
+  if (!override) return DEFAULT_RISK_POLICY
+  return {
+    ...DEFAULT_RISK_POLICY,
+    ...override,
+    weights: { ...DEFAULT_RISK_POLICY.weights, ...override.weights },
+    healthWeights: { ...DEFAULT_RISK_POLICY.healthWeights, ...override.healthWeights },
+  }
+}
+
+export interface RiskSignals {
+  ageDays: number
+  /** null when the repo could not be checked (none set, invalid, API error) */
+  githubCommits: boolean | null
+  mergedPrs: boolean | null
+  discordUpdates: number
+  overdueMilestones: number
+}
+
+export function evaluateRisk(signals: RiskSignals, policy: RiskPolicy): { final: RiskScanFinal; score: number } {
+  const { weights } = policy
+  const score =
+    (signals.githubCommits ? weights.githubCommits : 0) +
+    (signals.mergedPrs ? weights.mergedPrs : 0) +
+    (signals.discordUpdates > 0 ? weights.discordUpdates : 0) -
+    signals.overdueMilestones * weights.overdueMilestones
+
+  if (signals.ageDays < policy.gracePeriodDays) return { final: "too_new", score }
+  return { final: score < policy.atRiskBelow ? "at_risk" : "active", score }
+}
+
+// ---------- health score ----------
+
+export interface HealthInputs {
+  now?: Date
+  createdAt: string | Date
+  startDate: string | Date | null
+  endDate: string | Date | null
+  /** Most recent activity_logs entry (any source) */
+  lastActivityAt: string | Date | null
+  milestones: {
+    total: number
+    completed: number
+    overdue: number
+    totalBudget: number
+    completedBudget: number
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function clamp01(n: number) {
+  return Math.min(1, Math.max(0, n))
+}
+
+function pct(n: number) {
+  return `${Math.round(n * 100)}%`
+}
+
+/**
+ * 0–100 health score and the factors behind it.
+ * "Funds spent" is approximated as the elapsed share of the grant period (start → end),
+ * "progress" as the completed share of milestone budget (milestone count when budgets are missing).
+ */
+export function scoreProjectHealth(input: HealthInputs, policy: RiskPolicy): { score: number; factors: RiskFactor[] } {
+  const now = (input.now ?? new Date()).getTime()
+  const ms = input.milestones
+
+  const progress =
+    ms.totalBudget > 0
+      ? clamp01(ms.completedBudget / ms.totalBudget)
+      : ms.total > 0
+        ? clamp01(ms.completed / ms.total)
+        : 0
+
+  const start = new Date(input.startDate ?? input.createdAt).getTime()
+  const end = input.endDate ? new Date(input.endDate).getTime() : null
+  const elapsed = end && end > start ? clamp01((now - start) / (end - start)) : null
+
+  const values: Array<{ key: RiskFactor["key"]; label: string; value: number; detail: string }> = []
+
+  // Activity recency: full marks within a week, nothing at twice the policy window
+  if (input.lastActivityAt) {
+    const daysSince = Math.max(0, Math.floor((now - new Date(input.lastActivityAt).getTime()) / DAY_MS))
+    const fadeDays = Math.max(1, policy.windowDays * 2 - 7)
+    values.push({
+      key: "activity_recency",
+      label: "Activity recency",
+      value: daysSince <= 7 ? 1 : clamp01(1 - (daysSince - 7) / fadeDays),
+      detail: daysSince === 0 ? "Activity today" : `Last activity ${daysSince} day${daysSince === 1 ? "" : "s"} ago`,
+    })
+  } else {
+    values.push({ key: "activity_recency", label: "Activity recency", value: 0, detail: "No recorded activity" })
+  }
+
+  // Milestone slippage: share of milestones past their due_date and not completed
+  values.push({
+    key: "milestone_slippage",
+    label: "Milestone slippage",
+    value: ms.total > 0 ? clamp01(1 - ms.overdue / ms.total) : 1,
+    detail:
+      ms.total === 0
+        ? "No milestones yet"
+        : ms.overdue > 0
+          ? `${ms.overdue} of ${ms.total} milestones overdue`
+          : "No overdue milestones",
+  })
+
+  // Funds vs progress: how far the elapsed share of the grant runs ahead of delivered progress
+  if (elapsed === null) {
+    values.push({
+      key: "funding_vs_progress",
+      label: "Funds vs progress",
+      value: 1,
+      detail: "No end date to compare against",
+    })
+  } else {
+    const gap = elapsed - progress
+    values.push({
+      key: "funding_vs_progress",
+      label: "Funds vs progress",
+      value: clamp01(1 - Math.max(0, gap)),
+      detail: `${pct(elapsed)} of the grant period used, ${pct(progress)} delivered`,
+    })
+  }
+
+  // Deadline: remaining time relative to remaining work
+  if (!end) {
+    values.push({ key: "deadline", label: "Time to end date", value: 1, detail: "No end date set" })
+  } else if (progress >= 1) {
+    values.push({ key: "deadline", label: "Time to end date", value: 1, detail: "All milestones delivered" })
+  } else {
+    const daysLeft = Math.ceil((end - now) / DAY_MS)
+    const timeLeft = elapsed === null ? 1 : 1 - elapsed
+    values.push({
+      key: "deadline",
+      label: "Time to end date",
+      value: daysLeft < 0 ? 0 : clamp01(timeLeft / (1 - progress)),
+      detail:
+        daysLeft < 0
+          ? `Ended ${-daysLeft} day${daysLeft === -1 ? "" : "s"} ago at ${pct(progress)} progress`
+          : `${daysLeft} day${daysLeft === 1 ? "" : "s"} left with ${pct(1 - progress)} of the work remaining`,
+    })
+  }
+
+  const totalWeight = values.reduce((sum, v) => sum + policy.healthWeights[v.key], 0) || 1
+  const factors: RiskFactor[] = values.map((v) => {
+    const weight = (policy.healthWeights[v.key] / totalWeight) * 100
+    return {
+      key: v.key,
+      label: v.label,
+      weight: Math.round(weight * 10) / 10,
+      points: Math.round(weight * v.value * 10) / 10,
+      detail: v.detail,
+    }
+  })
+
+  return { score: Math.round(factors.reduce((sum, f) => sum + f.points, 0)), factors }
+}
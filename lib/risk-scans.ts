@@ -0,0 +1,278 @@
+import "server-only"
+import { sql } from "@/lib/db"
+import type { RepoCheck, RiskFactor, RiskScanFinal, RiskScanProgress, RiskScanResult, RiskScanRun } from "@/lib/types"
+
+/**
+ * `LEFT JOIN LATERAL ... latest` for a query over `projects p`: the project's most recent scan result as
+ * latest.final, latest.note, latest.score, latest.factors and latest.scanned_at (all null until the project is first
+ * scanned).
+ */
+export function latestRiskResultJoin() {
+  return sql/*sql*/`
+    LEFT JOIN LATERAL (
+      SELECT r.final, r.note, r.score, r.factors, run.started_at AS scanned_at
+      FROM risk_scan_results r
+      JOIN risk_scan_runs run ON run.id = r.run_id
+      WHERE r.project_id = p.id
+      ORDER BY run.started_at DESC
+      LIMIT 1
+    ) latest ON TRUE
+  `
+}
+
+/** What the scan computes for one project (the shape returned by /api/cron/risk-scan) */
+export interface RiskScanOutcome {
+  projectId: number
+  name: string
+  created_at: string
+  age_days: number
+  repo: string | null
+  repo_check: RepoCheck
+  github: {
+    commitActivity?: boolean
+    pullActivity?: boolean
+    reason?: string
+    /** Per linked repo, when the project has more than one */
+    repos?: Array<{ repo: string; commitActivity: boolean; pullActivity: boolean; reason?: string }>
+  }
+  discord: { hasActivity: boolean; countKnown?: number }
+  final: RiskScanFinal
+  note: string
+  score: number
+  factors: RiskFactor[]
+}
+
+/** `projectId` marks a single-project rescan (scope "project"); null is a full scan */
+export async function startRiskScanRun(
+  trigger: RiskScanRun["trigger"],
+  since: string,
+  projectId: number | null = null,
+): Promise<RiskScanRun> {
+  const [run] = (await sql/*sql*/`
+    INSERT INTO risk_scan_runs (trigger, status, since, project_id, scope)
+    VALUES (${trigger}, 'running', ${since}, ${projectId}, ${projectId === null ? "full" : "project"})
+    RETURNING *
+  `) as RiskScanRun[]
+  return run!
+}
+
+export async function saveRiskScanResult(runId: number, r: RiskScanOutcome) {
+  await sql/*sql*/`
+    INSERT INTO risk_scan_results (run_id, project_id, final, age_days, repo, repo_check, github, discord, note, score, factors)
+    VALUES (
+      ${runId},
+      ${r.projectId},
+      ${r.final},
+      ${r.age_days},
+      ${r.repo},
+      ${r.repo_check},
+      ${JSON.stringify(r.github)},
+      ${JSON.stringify(r.discord)},
+      ${r.note},
+      ${r.score},
+      ${JSON.stringify(r.factors)}
+    )
+    ON CONFLICT (run_id, project_id) DO UPDATE
+    SET final = EXCLUDED.final,
+        age_days = EXCLUDED.age_days,
+        repo = EXCLUDED.repo,
+        repo_check = EXCLUDED.repo_check,
+        github = EXCLUDED.github,
+        discord = EXCLUDED.discord,
+        note = EXCLUDED.note,
+        score = EXCLUDED.score,
+        factors = EXCLUDED.factors,
+        created_at = NOW()
+  `
+}
+
+// ---------- work queue ----------
+
+/** A claim older than this is assumed to belong to a worker that timed out */
+const QUEUE_CLAIM_TIMEOUT_MINUTES = 5
+/** Projects that keep failing are given up on after this many claims */
+const QUEUE_MAX_ATTEMPTS = 3
+
+export async function enqueueRiskScanProjects(runId: number, projectIds: number[]) {
+  if (projectIds.length === 0) return
+  await sql/*sql*/`
+    INSERT INTO risk_scan_queue (run_id, project_id)
+    SELECT ${runId}, unnest(${projectIds}::int[])
+    ON CONFLICT DO NOTHING
+  `
+}
+
+/** Claim up to `limit` pending (or stale) projects of the run for this worker */
+export async function claimRiskScanProjects(runId: number, limit: number): Promise<number[]> {
+  const rows = await sql/*sql*/`
+    UPDATE risk_scan_queue q
+    SET status = 'processing', attempts = q.attempts + 1, locked_at = NOW()
+    FROM (
+      SELECT project_id FROM risk_scan_queue
+      WHERE run_id = ${runId}
+        AND attempts < ${QUEUE_MAX_ATTEMPTS}
+        AND (
+          status = 'pending'
+          OR (status = 'processing' AND locked_at < NOW() - make_interval(mins => ${QUEUE_CLAIM_TIMEOUT_MINUTES}::int))
+        )
+      ORDER BY project_id
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    ) next
+    WHERE q.run_id = ${runId} AND q.project_id = next.project_id
+    RETURNING q.project_id
+  `
+  return rows.map((r: any) => r.project_id as number)
+}
+
+export async function settleRiskScanProject(
+  runId: number,
+  projectId: number,
+  status: "done" | "failed",
+  error: string | null = null,
+) {
+  await sql/*sql*/`
+    UPDATE risk_scan_queue
+    SET status = ${status}, error = ${error}, locked_at = NULL
+    WHERE run_id = ${runId} AND project_id = ${projectId}
+  `
+}
+
+/** Projects that may still be worked on: pending, or claimed and not yet out of attempts */
+export async function countOpenRiskScanProjects(runId: number): Promise<number> {
+  const rows = await sql/*sql*/`
+    SELECT COUNT(*)::int AS cnt
+    FROM risk_scan_queue
+    WHERE run_id = ${runId}
+      AND (status = 'pending' OR (status = 'processing' AND attempts < ${QUEUE_MAX_ATTEMPTS}))
+  `
+  return (rows?.[0]?.cnt ?? 0) as number
+}
+
+export async function getRiskScanProgress(runId: number): Promise<RiskScanProgress> {
+  const rows = await sql/*sql*/`
+    SELECT
+      COUNT(*)::int AS total,
+      (COUNT(*) FILTER (WHERE status = 'pending'))::int AS pending,
+      (COUNT(*) FILTER (WHERE status = 'processing'))::int AS processing,
+      (COUNT(*) FILTER (WHERE status = 'done'))::int AS done,
+      (COUNT(*) FILTER (WHERE status = 'failed'))::int AS failed
+    FROM risk_scan_queue
+    WHERE run_id = ${runId}
+  `
+  const r = rows?.[0] ?? {}
+  return {
+    total: r.total ?? 0,
+    pending: r.pending ?? 0,
+    processing: r.processing ?? 0,
+    done: r.done ?? 0,
+    failed: r.failed ?? 0,
+  }
+}
+
+/** The most recent full run that is still "running" (its worker was stopped before the queue emptied) */
+export async function findUnfinishedRiskScanRun(): Promise<RiskScanRun | null> {
+  const [run] = (await sql/*sql*/`
+    SELECT * FROM risk_scan_runs
+    WHERE status = 'running' AND scope = 'full'
+    ORDER BY started_at DESC
+    LIMIT 1
+  `) as RiskScanRun[]
+  return run ?? null
+}
+
+export async function getLatestFullRiskScanRun(): Promise<RiskScanRun | null> {
+  const [run] = (await sql/*sql*/`
+    SELECT * FROM risk_scan_runs
+    WHERE scope = 'full'
+    ORDER BY started_at DESC
+    LIMIT 1
+  `) as RiskScanRun[]
+  return run ?? null
+}
+
+export async function finishRiskScanRun(runId: number) {
+  // Claims that ran out of attempts without settling count as failed
+  await sql/*sql*/`
+    UPDATE risk_scan_queue
+    SET status = 'failed', error = COALESCE(error, 'max_attempts_exceeded'), locked_at = NULL
+    WHERE run_id = ${runId} AND status IN ('pending', 'processing')
+  `
+  await sql/*sql*/`
+    UPDATE risk_scan_runs
+    SET status = 'completed',
+        finished_at = NOW(),
+        project_count = (SELECT COUNT(*) FROM risk_scan_results WHERE run_id = ${runId}),
+        at_risk_count = (SELECT COUNT(*) FROM risk_scan_results WHERE run_id = ${runId} AND final = 'at_risk')
+    WHERE id = ${runId}
+  `
+}
+
+export async function failRiskScanRun(runId: number, error: string) {
+  await sql/*sql*/`
+    UPDATE risk_scan_runs
+    SET status = 'failed',
+        finished_at = NOW(),
+        error = ${error},
+        project_count = (SELECT COUNT(*) FROM risk_scan_results WHERE run_id = ${runId}),
+        at_risk_count = (SELECT COUNT(*) FROM risk_scan_results WHERE run_id = ${runId} AND final = 'at_risk')
+    WHERE id = ${runId}
+  `
+}
+
+export async function listRiskScanRuns(limit = 50): Promise<RiskScanRun[]> {
+  return (await sql/*sql*/`
+    SELECT * FROM risk_scan_runs
+    ORDER BY started_at DESC
+    LIMIT ${limit}
+  `) as RiskScanRun[]
+}
+
+export async function getRiskScanRun(
+  runId: number,
+): Promise<
+  | (RiskScanRun & { progress: RiskScanProgress; results: Array<RiskScanResult & { project_name: string | null }> })
+  | null
+> {
+  const [run] = (await sql/*sql*/`SELECT * FROM risk_scan_runs WHERE id = ${runId}`) as RiskScanRun[]
+  if (!run) return null
+
+  const results = (await sql/*sql*/`
+    SELECT r.*, p.name AS project_name
+    FROM risk_scan_results r
+    LEFT JOIN projects p ON p.id = r.project_id
+    WHERE r.run_id = ${runId}
+    ORDER BY r.final = 'at_risk' DESC, p.name ASC
+  `) as Array<RiskScanResult & { project_name: string | null }>
+
+  return { ...run, progress: await getRiskScanProgress(runId), results }
+}
+
+export type RiskHistoryEntry = RiskScanResult & { run_started_at: string }
+
+/** A project's results across runs, oldest first, plus the points where its status changed */
+export async function getProjectRiskHistory(
+  projectId: number,
+  limit = 180,
+): Promise<{ history: RiskHistoryEntry[]; transitions: Array<{ at: string; from: RiskScanFinal | null; to: RiskScanFinal; run_id: number }> }> {
+  const rows = (await sql/*sql*/`
+    SELECT * FROM (
+      SELECT r.*, run.started_at AS run_started_at
+      FROM risk_scan_results r
+      JOIN risk_scan_runs run ON run.id = r.run_id
+      WHERE r.project_id = ${projectId}
+      ORDER BY run.started_at DESC
+      LIMIT ${limit}
+    ) recent
+    ORDER BY run_started_at ASC
+  `) as RiskHistoryEntry[]
+
+  const transitions: Array<{ at: string; from: RiskScanFinal | null; to: RiskScanFinal; run_id: number }> = []
+  let prev: RiskScanFinal | null = null
+  for (const r of rows) {
+    if (r.final !== prev) transitions.push({ at: r.run_started_at, from: prev, to: r.final, run_id: r.run_id })
+    prev = r.final
+  }
+
+  return { history: rows, transitions }
+}
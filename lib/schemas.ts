@@ -0,0 +1,145 @@
+import { z } from "zod"
+import { MILESTONE_STATUSES, PROJECT_STATUSES } from "@/lib/constants"
+
+/**
+ * Input schemas shared by the API routes and the admin forms, so both reject the same payloads with the
+ * same messages. Field names are the API's (snake_case); the forms map them back to their inputs.
+ */
+
+export type FieldErrors = Record<string, string[]>
+
+const INT_MIN = -2147483648
+const INT_MAX = 2147483647
+// DECIMAL(15, 2)
+const AMOUNT_MAX = 9999999999999.99
+
+// Forms send "" for an empty input; the API stores that as null
+const blankToNull = (value: unknown) => (value === "" ? null : value)
+const toNumber = (value: unknown) => {
+  if (value === "" || value == null) return null
+  return typeof value === "string" ? Number(value) : value
+}
+
+const text = (max?: number) =>
+  z.preprocess(
+    blankToNull,
+    (max ? z.string().max(max, `Must be at most ${max} characters`) : z.string()).nullable(),
+  )
+
+const date = () =>
+  z.preprocess(
+    blankToNull,
+    z
+      .string()
+      .refine((value) => !Number.isNaN(new Date(value).getTime()), "Must be a valid date")
+      .nullable(),
+  )
+
+const amount = () =>
+  z.preprocess(
+    toNumber,
+    z
+      .number({ invalid_type_error: "Must be a number" })
+      .finite("Must be a number")
+      .min(0, "Must not be negative")
+      .max(AMOUNT_MAX, "Is too large")
+      .nullable(),
+  )
+
+const integer = () =>
+  z.preprocess(
+    toNumber,
+    z
+      .number({ invalid_type_error: "Must be a number" })
+      .int("Must be a whole number")
+      .min(INT_MIN, "Is too small")
+      .max(INT_MAX, "Is too large")
+      .nullable(),
+  )
+
+/** Every editable project column, all optional: the shape of PATCH /api/projects/:id */
+export const projectInputSchema = z.object({
+  name: z
+    .string({ required_error: "Is required" })
+    .trim()
+    .min(1, "Is required")
+    .max(255, "Must be at most 255 characters"),
+  description: text(),
+  status: z.enum(PROJECT_STATUSES, {
+    errorMap: () => ({ message: `Must be one of: ${PROJECT_STATUSES.join(", ")}` }),
+  }),
+  proposal_link: text(),
+  discord_channel: text(255),
+  discord_ingest_opt_out: z.boolean({ invalid_type_error: "Must be true or false" }),
+  funding_amount: amount(),
+  start_date: date(),
+  end_date: date(),
+  creator_username: text(255),
+  grantee_email: z.preprocess(
+    blankToNull,
+    z.string().max(255, "Must be at most 255 characters").email("Must be a valid email address").nullable(),
+  ),
+  category: text(100),
+  program_type: text(100),
+  mission_expertise: text(),
+  campaign_goals: text(),
+  creator_stat_1_name: text(255),
+  creator_stat_1_number: integer(),
+  creator_stat_2_name: text(255),
+  creator_stat_2_number: integer(),
+  youtube_link: text(500),
+  tiktok_link: text(500),
+  twitter_link: text(500),
+  twitch_link: text(500),
+  website_links: text(),
+  duration: text(100),
+}).partial()
+
+/** POST /api/projects and PUT /api/projects/:id: a whole project, which needs at least a name */
+export const projectCreateSchema = projectInputSchema.required({ name: true })
+
+export type ProjectInput = z.infer<typeof projectInputSchema>
+
+/** POST /api/projects/:id/milestones, where the project comes from the URL */
+export const milestoneInputSchema = z.object({
+  title: z
+    .string({ required_error: "Is required" })
+    .trim()
+    .min(1, "Is required")
+    .max(255, "Must be at most 255 characters"),
+  description: text(5000).optional(),
+  due_date: z.string({ required_error: "Is required" }).refine(
+    (value) => !Number.isNaN(new Date(value).getTime()),
+    "Must be a valid date",
+  ),
+  status: z
+    .enum(MILESTONE_STATUSES, {
+      errorMap: () => ({ message: `Must be one of: ${MILESTONE_STATUSES.join(", ")}` }),
+    })
+    .default("pending"),
+  budget: amount().optional(),
+  ordinal: z.coerce.number().int().min(1, "Must be a positive number").optional(),
+})
+
+/** POST /api/milestones, which names the project in the body */
+export const milestoneCreateSchema = milestoneInputSchema.extend({
+  project_id: z.preprocess(
+    (value) => (typeof value === "string" && value !== "" ? Number(value) : value),
+    z
+      .number({ required_error: "Is required", invalid_type_error: "Must be a project id" })
+      .int("Must be a project id")
+      .min(1, "Must be a project id"),
+  ),
+})
+
+export type MilestoneInput = z.infer<typeof milestoneInputSchema>
+
+/** A ZodError as { field: [messages] }; issues on the body itself are keyed by "_" */
+export function toFieldErrors(error: z.ZodError): FieldErrors {
+  const errors: FieldErrors = {}
+  for (const issue of error.issues) {
+    const field = issue.path.length > 0 ? issue.path.join(".") : "_"
+    ;(errors[field] ??= []).push(issue.message)
+  }
+  return errors
+}
@@ -0,0 +1,77 @@
+/**
+ * Signed session cookie shared by middleware.ts (edge runtime) and the route handlers.
+ * Only Web Crypto and process.env are used here: configs/config loads dotenv, which the edge runtime cannot.
+ *
+ * Cookie value: base64url(JSON payload) + "." + base64url(HMAC-SHA256(payload, SESSION_SECRET))
+ */
+
+export const SESSION_COOKIE = "p6_session"
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60
+
+export type SessionRole = "admin" | "user"
+
+export interface SessionPayload {
+  /** users.id */
+  sub: number
+  discord_id: string
+  name: string
+  /** Role at sign-in; write routes re-check it against the users table */
+  role: SessionRole
+  /** Expiry, unix seconds */
+  exp: number
+}
+
+const encoder = new TextEncoder()
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = ""
+  for (const b of bytes) binary += String.fromCharCode(b)
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(value: string) {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"))
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0))
+}
+
+async function hmacKey() {
+  const secret = process.env.SESSION_SECRET
+  if (!secret) throw new Error("SESSION_SECRET is not set")
+  return crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+    "verify",
+  ])
+}
+
+export async function signSession(payload: Omit<SessionPayload, "exp">): Promise<string> {
+  const body: SessionPayload = { ...payload, exp: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS }
+  const data = toBase64Url(encoder.encode(JSON.stringify(body)))
+  const signature = await crypto.subtle.sign("HMAC", await hmacKey(), encoder.encode(data))
+  return `${data}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+/** The payload of a well-signed, unexpired cookie value; null otherwise */
+export async function verifySession(value: string | null | undefined): Promise<SessionPayload | null> {
+  if (!value) return null
+  const [data, signature] = value.split(".")
+  if (!data || !signature) return null
+
+  try {
+    const valid = await crypto.subtle.verify("HMAC", await hmacKey(), fromBase64Url(signature), encoder.encode(data))
+    if (!valid) return null
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(data))) as SessionPayload
+    if (typeof payload.exp !== "number" || payload.exp * 1000 <= Date.now()) return null
+    return payload
+  } catch {
+    return null
+  }
+}
+
+export const sessionCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  // "lax" so the cookie survives the top-level redirect back from Discord
+  sameSite: "lax" as const,
+  path: "/",
+  maxAge: SESSION_TTL_SECONDS,
+}
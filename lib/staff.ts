@@ -0,0 +1,115 @@
+import "server-only"
+import { config } from "@/configs/config"
+import { sql } from "@/lib/db"
+import { getGuildMemberRoles } from "@/lib/discord"
+import type { StaffMember, StaffRole } from "@/lib/types"
+
+/**
+ * Admin/reviewer registry for the bot-driven endpoints. A Discord user is staff when listed in staff_members,
+ * or (when not listed) when they hold DISCORD_ADMIN_ROLE_ID / DISCORD_REVIEWER_ROLE_ID in the guild.
+ * Every decision made by authorizeProjectAction is written to permission_audit_log.
+ */
+
+export type ProjectAction = "progress:post" | "activity:write" | "milestone:complete"
+
+/** Staff roles that may act on any project; the project's assignee may always act on their own */
+const ACTION_ROLES: Record<ProjectAction, readonly StaffRole[]> = {
+  "progress:post": ["admin"],
+  "activity:write": ["admin"],
+  "milestone:complete": ["admin", "reviewer"],
+}
+
+// Guild role lookups are cached briefly so a burst of bot commands does not hit the Discord API each time
+const GUILD_ROLE_CACHE_MS = 5 * 60 * 1000
+const guildRoleCache = new Map<string, { role: StaffRole | null; expiresAt: number }>()
+
+async function staffRoleFromGuild(discordId: string): Promise<StaffRole | null> {
+  const cached = guildRoleCache.get(discordId)
+  if (cached && cached.expiresAt > Date.now()) return cached.role
+
+  const roles = await getGuildMemberRoles(discordId)
+  const role: StaffRole | null =
+    roles && config.discordAdminRoleId && roles.includes(config.discordAdminRoleId)
+      ? "admin"
+      : roles && config.discordReviewerRoleId && roles.includes(config.discordReviewerRoleId)
+        ? "reviewer"
+        : null
+  // Failed lookups are not cached, so a Discord outage does not pin someone to "no role"
+  if (roles !== null) guildRoleCache.set(discordId, { role, expiresAt: Date.now() + GUILD_ROLE_CACHE_MS })
+  return role
+}
+
+export async function getStaffRole(discordId: string | null | undefined): Promise<StaffRole | null> {
+  if (!discordId) return null
+  const [row] = await sql/*sql*/`SELECT role FROM staff_members WHERE discord_id = ${discordId}`
+  if (row) return row.role as StaffRole
+  return staffRoleFromGuild(discordId)
+}
+
+export type PermissionDecision = {
+  allowed: boolean
+  grantedAs: "assignee" | StaffRole | null
+  reason: string
+}
+
+/** May `callerDiscordId` perform `action` on the project? The decision is audit-logged either way. */
+export async function authorizeProjectAction(
+  action: ProjectAction,
+  callerDiscordId: string | null | undefined,
+  project: { id: number; assignee_discord_id: string | null },
+): Promise<PermissionDecision> {
+  let decision: PermissionDecision
+  if (!callerDiscordId) {
+    decision = { allowed: false, grantedAs: null, reason: "missing_caller" }
+  } else if (project.assignee_discord_id && callerDiscordId === project.assignee_discord_id) {
+    decision = { allowed: true, grantedAs: "assignee", reason: "project_assignee" }
+  } else {
+    const role = await getStaffRole(callerDiscordId)
+    decision =
+      role && ACTION_ROLES[action].includes(role)
+        ? { allowed: true, grantedAs: role, reason: `staff_${role}` }
+        : { allowed: false, grantedAs: null, reason: role ? `role_${role}_not_permitted` : "not_assignee_or_staff" }
+  }
+
+  await sql/*sql*/`
+    INSERT INTO permission_audit_log (actor_discord_id, action, project_id, allowed, granted_as, reason)
+    VALUES (
+      ${callerDiscordId ?? null}, ${action}, ${project.id},
+      ${decision.allowed}, ${decision.grantedAs}, ${decision.reason}
+    )
+  `
+  return decision
+}
+
+export async function listStaffMembers(): Promise<StaffMember[]> {
+  return (await sql/*sql*/`SELECT * FROM staff_members ORDER BY role ASC, created_at ASC`) as StaffMember[]
+}
+
+export async function upsertStaffMember(
+  discordId: string,
+  role: StaffRole,
+  note: string | null,
+  addedBy: string | null,
+): Promise<StaffMember> {
+  const [row] = (await sql/*sql*/`
+    INSERT INTO staff_members (discord_id, role, note, added_by)
+    VALUES (${discordId}, ${role}, ${note}, ${addedBy})
+    ON CONFLICT (discord_id) DO UPDATE
+    SET role = EXCLUDED.role, note = EXCLUDED.note, added_by = EXCLUDED.added_by
+    RETURNING *
+  `) as StaffMember[]
+  return row!
+}
+
+export async function getStaffMember(discordId: string): Promise<StaffMember | null> {
+  const [row] = (await sql/*sql*/`SELECT * FROM staff_members WHERE discord_id = ${discordId}`) as StaffMember[]
+  return row ?? null
+}
+
+/** The removed entry, or null when `discordId` was not in the registry */
+export async function removeStaffMember(discordId: string): Promise<StaffMember | null> {
+  const [row] = (await sql/*sql*/`
+    DELETE FROM staff_members WHERE discord_id = ${discordId} RETURNING *
+  `) as StaffMember[]
+  return row ?? null
+}
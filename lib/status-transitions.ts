@@ -0,0 +1,32 @@
+import type { MilestoneStatus, ProjectStatus } from "@/lib/types"
+
+/**
+ * The status changes the API allows. Any status can be chosen when a project or milestone is created; after that
+ * it may only move along these edges. A completed project can be reopened, a completed milestone cannot.
+ */
+
+export const PROJECT_STATUS_TRANSITIONS: Record<ProjectStatus, readonly ProjectStatus[]> = {
+  active: ["on-hold", "completed"],
+  "on-hold": ["active", "completed"],
+  completed: ["active"],
+}
+
+export const MILESTONE_STATUS_TRANSITIONS: Record<MilestoneStatus, readonly MilestoneStatus[]> = {
+  pending: ["not-started", "in-progress", "overdue", "completed"],
+  "not-started": ["in-progress", "overdue", "completed"],
+  "in-progress": ["overdue", "completed"],
+  overdue: ["in-progress", "completed"],
+  completed: [],
+}
+
+/** Why a project can't go from `from` to `to`, or null when it can (staying put is always allowed) */
+export function projectTransitionError(from: ProjectStatus, to: ProjectStatus): string | null {
+  if (from === to || PROJECT_STATUS_TRANSITIONS[from]?.includes(to)) return null
+  return `A project cannot go from ${from} to ${to}`
+}
+
+/** Why a milestone can't go from `from` to `to`, or null when it can */
+export function milestoneTransitionError(from: MilestoneStatus, to: MilestoneStatus): string | null {
+  if (from === to || MILESTONE_STATUS_TRANSITIONS[from]?.includes(to)) return null
+  return `A milestone cannot go from ${from} to ${to}`
+}
@@ -1,11 +1,15 @@
 // Core domain types
+export type ProjectStatus = "active" | "on-hold" | "completed"
+export type MilestoneStatus = "pending" | "not-started" | "in-progress" | "overdue" | "completed"
+
 export interface Project {  
   readonly id: number
   readonly name: string
   readonly description: string
-  readonly status: "active" | "completed" | "on-hold"
+  readonly status: ProjectStatus
   readonly github_repo?: string
   readonly discord_channel?: string
+  readonly discord_ingest_opt_out?: boolean
   readonly creator_username?: string
   readonly assignee_discord_id?: string
   readonly funding_amount?: number
@@ -17,11 +21,22 @@ export interface Project {
   readonly completed_milestones?: number
   readonly progress_percentage?: number
   readonly category?: string
+  readonly program_type?: string
   readonly duration?: string
   readonly grantee_email?: string
   readonly creator_name?: string
   readonly creator_email?: string
-  readonly active_milestone_status?: string
+  readonly active_milestone_status?: MilestoneStatus | null
+  /** Outcome of the most recent risk scan (null until the project has been scanned) */
+  readonly risk_status?: RiskScanFinal | null
+  readonly risk_note?: string | null
+  readonly risk_score?: number | null
+  readonly risk_factors?: readonly RiskFactor[] | null
+  /** Every linked repo; github_repo mirrors the first one */
+  readonly repositories?: readonly ProjectRepository[]
+  /** Set when the project is in the trash; trashed projects are hidden everywhere except /admin/trash */
+  readonly deleted_at?: string | null
+  readonly deleted_by?: string | null
   readonly proposal_link?: string
   readonly project_background: string
   readonly mission_expertise: string
@@ -34,6 +49,7 @@ export interface Project {
   readonly tiktok_link: string
   readonly twitter_link: string
   readonly twitch_link: string
+  readonly website_links?: string
 
 
 
@@ -49,29 +65,52 @@ export interface Milestone {
   readonly description: string
   readonly due_date: string
   readonly progress?: number
-  readonly status: "pending" | "in-progress" | "completed" | "overdue" | "not-started"
+  readonly status: MilestoneStatus
   readonly budget_allocated: number
   readonly completion_date: string
   readonly created_at: string
   readonly updated_at: string
+  /** Set while the milestone is in the trash */
+  readonly deleted_at?: string | null
+  readonly deleted_by?: string | null
 }
 
 export interface User {
   readonly id: number
+  readonly discord_id: string
   readonly name: string
-  readonly email: string
+  readonly email: string | null
+  /** Discord avatar hash */
+  readonly avatar: string | null
   readonly role: "admin" | "user"
   readonly created_at: string
+  readonly last_login_at: string | null
+}
+
+export type StaffRole = "admin" | "reviewer"
+
+/** An admin/reviewer in the registry used by the bot-driven endpoints (see lib/staff.ts) */
+export interface StaffMember {
+  readonly discord_id: string
+  readonly role: StaffRole
+  readonly note: string | null
+  readonly added_by: string | null
+  readonly created_at: string
 }
 
+export type ActivitySource = "github" | "discord" | "manual"
+
 export interface ActivityLog {
   readonly id: number
   readonly project_id: number
-  readonly source: string
-  readonly type: string
-  readonly content?: string | null
-  readonly url?: string | null
+  readonly activity_type: string
+  readonly source: ActivitySource
+  readonly title: string | null
+  readonly description: string | null
+  readonly url: string | null
+  readonly author: string | null
   readonly timestamp: string
+  readonly metadata: Record<string, unknown> | null
 }
 
 // API response types
@@ -79,6 +118,8 @@ export interface ApiResponse<T> {
   readonly data?: T
   readonly error?: string
   readonly message?: string
+  /** Per-field validation messages, keyed by API field name */
+  readonly fields?: Record<string, string[]>
 }
 
 export interface PaginatedResponse<T> {
@@ -108,35 +149,352 @@ export interface DashboardStats {
 }
 
 // Webhook types
-export interface GitHubWebhookPayload {
-  readonly action?: string
-  readonly commits?: Array<{
+export interface GitHubUser {
+  readonly login: string
+  readonly html_url?: string
+}
+
+export interface GitHubPushCommit {
+  readonly id: string
+  readonly message: string
+  readonly url: string
+  readonly timestamp: string
+  readonly distinct?: boolean
+  readonly author?: {
+    readonly name?: string
+    readonly email?: string
+    readonly username?: string
+  }
+}
+
+export interface GitHubPullRequest {
+  readonly number: number
+  readonly title: string
+  readonly html_url: string
+  readonly state: "open" | "closed"
+  readonly merged?: boolean
+  readonly merged_at?: string | null
+  readonly merge_commit_sha?: string | null
+  readonly closed_at?: string | null
+  readonly created_at: string
+  readonly updated_at?: string
+  readonly user?: GitHubUser
+  readonly merged_by?: GitHubUser | null
+  readonly head?: { readonly ref: string; readonly sha: string }
+  readonly base?: { readonly ref: string }
+}
+
+export interface GitHubPullRequestReview {
+  readonly id: number
+  readonly state: "approved" | "changes_requested" | "commented" | "dismissed" | string
+  readonly body?: string | null
+  readonly html_url: string
+  readonly submitted_at?: string | null
+  readonly user?: GitHubUser
+}
+
+export interface GitHubRelease {
+  readonly id: number
+  readonly tag_name: string
+  readonly name?: string | null
+  readonly body?: string | null
+  readonly html_url: string
+  readonly draft?: boolean
+  readonly prerelease?: boolean
+  readonly published_at?: string | null
+  readonly created_at?: string
+  readonly author?: GitHubUser
+}
+
+/** An item of GET /repos/{owner}/{repo}/branches */
+export interface GitHubBranch {
+  readonly name: string
+  readonly commit: { readonly sha: string }
+}
+
+/** An item of GET /repos/{owner}/{repo}/commits */
+export interface GitHubCommit {
+  readonly sha: string
+  readonly html_url: string
+  readonly commit: {
     readonly message: string
-    readonly url: string
-  }>
-  readonly head_commit?: {
-    readonly timestamp: string
+    readonly author?: { readonly name?: string; readonly email?: string; readonly date?: string } | null
+    readonly committer?: { readonly name?: string; readonly email?: string; readonly date?: string } | null
   }
-  readonly pull_request?: {
-    readonly title: string
+  readonly author?: GitHubUser | null
+  readonly committer?: GitHubUser | null
+}
+
+/** An item of GET /repos/{owner}/{repo}/issues (pull requests carry a `pull_request` key) */
+export interface GitHubIssue {
+  readonly number: number
+  readonly title: string
+  readonly html_url: string
+  readonly state: "open" | "closed"
+  readonly created_at: string
+  readonly updated_at: string
+  readonly closed_at?: string | null
+  readonly user?: GitHubUser
+  readonly pull_request?: { readonly url: string }
+}
+
+/**
+ * Union of the fields we read from push, pull_request, pull_request_review,
+ * release, create and issues deliveries (the event name comes from X-GitHub-Event).
+ */
+export interface GitHubWebhookPayload {
+  readonly action?: string
+  readonly repository?: {
+    readonly full_name: string
     readonly html_url: string
-    readonly created_at: string
   }
+  readonly sender?: GitHubUser
+  // push
+  readonly ref?: string
+  readonly before?: string
+  readonly after?: string
+  readonly deleted?: boolean
+  readonly compare?: string
+  readonly commits?: readonly GitHubPushCommit[]
+  readonly head_commit?: GitHubPushCommit | null
+  // create (ref_type = "tag" | "branch"; `ref` is the bare name)
+  readonly ref_type?: "tag" | "branch" | "repository"
+  // pull_request / pull_request_review
+  readonly pull_request?: GitHubPullRequest
+  readonly review?: GitHubPullRequestReview
+  // release
+  readonly release?: GitHubRelease
+  // issues
   readonly issue?: {
+    readonly number?: number
     readonly title: string
     readonly html_url: string
     readonly created_at: string
+    readonly closed_at?: string | null
+    readonly user?: GitHubUser
   }
 }
 
+/** A Discord message object as forwarded by a relay (MESSAGE_CREATE shape) */
 export interface DiscordWebhookPayload {
   readonly content: string
   readonly author: {
     readonly username: string
     readonly id: string
+    readonly bot?: boolean
+    readonly system?: boolean
   }
   readonly channel_id: string
+  /** Set by relays that already know the thread's parent; otherwise it is looked up */
+  readonly parent_channel_id?: string | null
   readonly guild_id?: string
   readonly id: string
+  readonly type?: number
+  readonly webhook_id?: string
   readonly timestamp?: string
 }
+
+// Risk scan types
+export type RiskScanFinal = "active" | "at_risk" | "too_new"
+
+export type RepoCheck = "none" | "checked" | "invalid" | "error"
+
+/** One contribution to a project's 0–100 health score */
+export interface RiskFactor {
+  readonly key: "activity_recency" | "milestone_slippage" | "funding_vs_progress" | "deadline"
+  readonly label: string
+  /** Share of the score this factor can contribute (policy weight, normalized to 100) */
+  readonly weight: number
+  /** Points earned, 0..weight */
+  readonly points: number
+  readonly detail: string
+}
+
+export interface RiskScanRun {
+  readonly id: number
+  readonly trigger: "cron" | "manual"
+  readonly status: "running" | "completed" | "failed"
+  readonly since: string
+  /** A full scan covers every live project; a "project" run is a single-project rescan */
+  readonly scope: "full" | "project"
+  /** The project a "project" run rescanned; null for a full scan, or once that project is purged */
+  readonly project_id: number | null
+  readonly project_count: number
+  readonly at_risk_count: number
+  readonly error: string | null
+  readonly started_at: string
+  readonly finished_at: string | null
+}
+
+/** A GitHub repo linked to a project (a project can ship across several) */
+export interface ProjectRepository {
+  readonly id: number
+  readonly project_id: number
+  /** Normalized "owner/repo" */
+  readonly repo: string
+  /** e.g. "frontend", "contracts", "docs" */
+  readonly label: string | null
+  /** Branch names or "*" patterns whose activity counts (empty = all branches) */
+  readonly branches: readonly string[]
+  /** Logins or "*" patterns ignored in addition to the built-in dependency bots */
+  readonly excluded_authors: readonly string[]
+  readonly position: number
+  readonly created_at: string
+}
+
+/** Someone seen in a project's GitHub activity, rolled up from activity_logs */
+export interface ProjectContributor {
+  /** GitHub login (or git author name for commits GitHub could not attribute) */
+  readonly login: string
+  readonly commits: number
+  readonly pull_requests: number
+  readonly merges: number
+  readonly reviews: number
+  readonly total: number
+  readonly first_active_at: string
+  readonly last_active_at: string
+  readonly repos: readonly string[]
+  readonly discord_id: string | null
+  readonly discord_username: string | null
+  /**
+   * How the Discord identity was found: a verified /link-github link, the login matching creator_username, or a
+   * /link-github link whose owner has not proven the login (self_claimed, which never makes a grantee)
+   */
+  readonly matched_by: "linked" | "creator_username" | "self_claimed" | null
+  /** The mapped identity is the project's grantee (assignee / creator_username) */
+  readonly is_grantee: boolean
+}
+
+/** A GitHub login linked to a Discord member with /link-github */
+export interface GitHubIdentity {
+  readonly github_login: string
+  readonly discord_id: string
+  readonly discord_username: string | null
+  /** When the member proved they own the login; null for a self-claimed link */
+  readonly verified_at: string | null
+  readonly created_at: string
+  readonly updated_at: string
+}
+
+export interface ProjectContributors {
+  readonly contributors: readonly ProjectContributor[]
+  /** Share (0–100) of the project's commits authored by the grantee; null when there are no commits */
+  readonly grantee_commit_share: number | null
+}
+
+/**
+ * Where the next import pass resumes the sources that had more than one pass's worth of pages. A source missing
+ * from the cursor is read from the top; one set to null has been read to the end.
+ */
+export interface GitHubBackfillCursor {
+  /** Per branch ("" for the default branch): list commits up to this date, the oldest one read so far */
+  readonly commits?: Readonly<Record<string, string | null>>
+  readonly pulls_page?: number | null
+  readonly releases_page?: number | null
+}
+
+export interface GitHubBackfill {
+  readonly project_id: number
+  readonly repo: string
+  readonly status: "pending" | "running" | "completed" | "failed"
+  readonly imported_count: number
+  /** Set while the import is truncated at the page limit and more history remains; null once it has all been read */
+  readonly cursor: GitHubBackfillCursor | null
+  readonly error: string | null
+  readonly last_run_at: string | null
+  readonly completed_at: string | null
+  readonly created_at: string
+}
+
+/** Queue state of a run; a run is "running" until nothing is pending or processing */
+export interface RiskScanProgress {
+  readonly total: number
+  readonly pending: number
+  readonly processing: number
+  readonly done: number
+  readonly failed: number
+}
+
+export interface RiskScanResult {
+  readonly id: number
+  readonly run_id: number
+  readonly project_id: number
+  readonly final: RiskScanFinal
+  readonly age_days: number | null
+  readonly repo: string | null
+  readonly repo_check: RepoCheck
+  readonly github: {
+    readonly commitActivity?: boolean
+    readonly pullActivity?: boolean
+    readonly reason?: string
+    readonly repos?: ReadonlyArray<{
+      readonly repo: string
+      readonly commitActivity: boolean
+      readonly pullActivity: boolean
+      readonly reason?: string
+    }>
+  } | null
+  readonly discord: { readonly hasActivity: boolean; readonly countKnown?: number } | null
+  readonly note: string | null
+  readonly score: number | null
+  readonly factors: readonly RiskFactor[] | null
+  readonly created_at: string
+}
+
+export type ApiTokenScope = "activity:write" | "milestones:complete" | "scan:run"
+
+/** An issued API token; the secret itself is never stored or returned after creation */
+export interface ApiToken {
+  readonly id: number
+  readonly name: string
+  readonly token_prefix: string
+  readonly scopes: readonly ApiTokenScope[]
+  readonly expires_at: string | null
+  readonly last_used_at: string | null
+  readonly revoked_at: string | null
+  readonly created_by: string | null
+  readonly created_at: string
+}
+
+export type AuditActorType = "user" | "discord" | "api_token" | "system"
+
+/** One mutation from the audit trail; `changes` holds only the fields that differ */
+export interface AuditEvent {
+  readonly id: number
+  readonly actor_type: AuditActorType
+  readonly actor_id: string | null
+  readonly actor_name: string | null
+  readonly action: string
+  readonly entity_type: string
+  readonly entity_id: string | null
+  readonly project_id: number | null
+  readonly changes: Readonly<Record<string, { readonly before: unknown; readonly after: unknown }>>
+  readonly metadata: Record<string, any> | null
+  readonly created_at: string
+}
+
+/** A trashed project as listed in the admin trash view */
+export interface TrashedProject {
+  readonly id: number
+  readonly name: string
+  readonly deleted_at: string
+  readonly deleted_by: string | null
+  /** When the retention window ends and the project is purged automatically */
+  readonly purge_after: string
+  readonly milestone_count: number
+  readonly activity_count: number
+}
+
+/** A milestone deleted on its own; milestones of a trashed project stay with the project */
+export interface TrashedMilestone {
+  readonly id: number
+  readonly project_id: number
+  readonly project_name: string
+  readonly title: string
+  readonly deleted_at: string
+  readonly deleted_by: string | null
+  /** When the retention window ends and the milestone is purged automatically */
+  readonly purge_after: string
+  /** Whether the milestone's project is in the trash as well (restore that first) */
+  readonly project_deleted: boolean
+}
@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { MilestoneStatus, ProjectStatus } from "@/lib/types"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -52,39 +53,26 @@ export function capitalizeStatus(status: string): string {
     .replace(/\b\w/g, (c) => c.toUpperCase())
 }
 
-/**
- * Map a status to Tailwind color classes.
- * Accepts variants like "not-started" or "not started".
- */
+const STATUS_COLORS: Record<ProjectStatus | MilestoneStatus, string> = {
+  active: "bg-green-900 text-green-100",
+  "on-hold": "bg-yellow-900 text-yellow-100",
+  completed: "bg-blue-900 text-blue-100",
+  pending: "bg-gray-900 text-gray-100",
+  "not-started": "bg-orange-900 text-orange-100",
+  "in-progress": "bg-green-900 text-green-100",
+  overdue: "bg-orange-900 text-orange-100",
+}
+
+/** Map a project or milestone status (lib/constants.ts) to Tailwind color classes */
 export function getStatusColor(status: string): string {
-  const s = (status || "").toLowerCase().replace(/[_-]+/g, " ").trim()
-  switch (s) {
-    case "active":
-      return "bg-green-900 text-green-100"
-    case "completed":
-    case "complete":
-      return "bg-blue-900 text-blue-100"
-    case "planning":
-      return "bg-yellow-900 text-yellow-100"
-    case "review":
-      return "bg-purple-900 text-purple-100"
-    case "overdue":
-      return "bg-orange-900 text-orange-100"
-    case "pending":
-      return "bg-gray-900 text-gray-100"
-    case "not started":
-      return "bg-orange-900 text-orange-100"
-    default:
-      return "bg-gray-900 text-gray-100"
-  }
+  return STATUS_COLORS[status as keyof typeof STATUS_COLORS] ?? "bg-gray-900 text-gray-100"
 }
 
-function normStatus(s?: string) {
-  if (!s) return ""
-  return s
-    .trim()
-    .toLowerCase()
-    .replace(/[_\s]+/g, "-")
+/** Badge colors for the 0–100 health score written by the risk scan */
+export function getHealthScoreColor(score: number): string {
+  if (score >= 70) return "bg-green-900 text-green-100"
+  if (score >= 40) return "bg-yellow-900 text-yellow-100"
+  return "bg-red-900 text-red-100"
 }
 
 export function sortProjects(projects: any[], sortOrder: string) {
@@ -92,8 +80,7 @@ export function sortProjects(projects: any[], sortOrder: string) {
 
   if (sortOrder === "overdue") {
     filteredProjects = filteredProjects.filter((project) => {
-      const hasOverdueStatus =
-        normStatus(project.status) === "overdue" || normStatus(project.active_milestone_status) === "overdue"
+      const hasOverdueStatus = project.active_milestone_status === "overdue"
 
       let isPastEndDate = false
       if (project.end_date) {
@@ -105,17 +92,10 @@ export function sortProjects(projects: any[], sortOrder: string) {
       return hasOverdueStatus || isPastEndDate
     })
   } else if (sortOrder === "at-risk") {
-    filteredProjects = filteredProjects.filter((project) => {
-      const progress = project.progress_percentage || 0
-      const status = normStatus(project.status)
-      return progress < 30 || status === "planning" || status === "review"
-    })
+    // "at risk" is decided by the risk scan (lib/risk-policy.ts)
+    filteredProjects = filteredProjects.filter((project) => project.risk_status === "at_risk")
   } else if (sortOrder === "not-started") {
-    filteredProjects = filteredProjects.filter((project) => {
-      const s1 = normStatus(project.status)
-      const s2 = normStatus(project.active_milestone_status)
-      return s1 === "not-started" || s2 === "not-started"
-    })
+    filteredProjects = filteredProjects.filter((project) => project.active_milestone_status === "not-started")
   }
 
   return filteredProjects.sort((a, b) => {
@@ -178,13 +158,9 @@ export function getOverdueMessage(dueDate: string): string | null {
   return `⚠️ Overdue since ${formatDate(dueDate)} (${diffDays} day${diffDays > 1 ? "s" : ""})`
 }
 
-/**
- * Show progress bar for everything except: complete/completed/not started
- * Accept hyphen/space variants of "not started".
- */
+/** Show a progress bar for every milestone status except completed and not-started */
 export function shouldShowProgressBar(status: string): boolean {
-  const normalized = (status || "").toLowerCase().replace(/[_-]+/g, " ").trim()
-  return normalized !== "complete" && normalized !== "completed" && normalized !== "not started"
+  return status !== "completed" && status !== "not-started"
 }
 
 export function parseDurationToEndDate(startDate: string | Date, duration: string): Date | null {
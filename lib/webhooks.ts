@@ -0,0 +1,109 @@
+import "server-only"
+import { createHmac, timingSafeEqual } from "crypto"
+import { sql } from "@/lib/db"
+import { config } from "@/configs/config"
+
+export type WebhookSource = "github" | "discord"
+
+export type WebhookDeliveryStatus = "received" | "processed" | "unmatched" | "failed" | "rejected" | "duplicate"
+
+type DeliveryEntry = {
+  source: WebhookSource
+  deliveryId?: string | null
+  event: string | null
+  repoFullName?: string | null
+  reason?: string | null
+  payload?: unknown
+}
+
+/** Check `X-Hub-Signature-256` ("sha256=<hex>") against the raw request body */
+export function verifyGitHubSignature(rawBody: string, signatureHeader: string | null): { ok: boolean; reason?: string } {
+  if (!config.githubWebhookSecret) return { ok: false, reason: "secret_not_configured" }
+  if (!signatureHeader) return { ok: false, reason: "missing_signature" }
+  if (!signatureHeader.startsWith("sha256=")) return { ok: false, reason: "unsupported_signature_format" }
+
+  const expected = Buffer.from(
+    `sha256=${createHmac("sha256", config.githubWebhookSecret).update(rawBody, "utf8").digest("hex")}`,
+  )
+  const received = Buffer.from(signatureHeader)
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { ok: false, reason: "invalid_signature" }
+  }
+  return { ok: true }
+}
+
+/** Keep a record of a webhook delivery that did not end up as project activity */
+export async function recordWebhookDelivery(entry: DeliveryEntry & { status: WebhookDeliveryStatus }) {
+  const { source, deliveryId = null, event, repoFullName = null, status, reason = null, payload = null } = entry
+
+  await sql/*sql*/`
+    INSERT INTO webhook_deliveries (source, delivery_id, event, repo_full_name, status, reason, payload)
+    VALUES (
+      ${source},
+      ${deliveryId},
+      ${event},
+      ${repoFullName},
+      ${status},
+      ${reason},
+      ${payload == null ? null : JSON.stringify(payload)}
+    )
+  `
+}
+
+/** A claim still "received" after this long belongs to a handler that died before settling it */
+const CLAIM_TIMEOUT_MINUTES = 5
+
+/**
+ * Claim a delivery id before processing it.
+ * Returns the delivery row id, or null when the id was already accepted (a redelivery). A stale claim (still
+ * "received" after CLAIM_TIMEOUT_MINUTES) is taken over, so a redelivery after a crash is processed.
+ */
+export async function claimWebhookDelivery(entry: DeliveryEntry & { deliveryId: string }): Promise<number | null> {
+  const { source, deliveryId, event, repoFullName = null, payload = null } = entry
+  const payloadJson = payload == null ? null : JSON.stringify(payload)
+
+  const rows = await sql/*sql*/`
+    INSERT INTO webhook_deliveries (source, delivery_id, event, repo_full_name, status, payload)
+    VALUES (
+      ${source},
+      ${deliveryId},
+      ${event},
+      ${repoFullName},
+      ${"received"},
+      ${payloadJson}
+    )
+    ON CONFLICT (source, delivery_id) WHERE status IN ('received', 'processed', 'unmatched') DO NOTHING
+    RETURNING id
+  `
+  if (rows[0]) return rows[0].id as number
+
+  // Conditional, so only one of several concurrent redeliveries takes over the stale claim
+  const reclaimed = await sql/*sql*/`
+    UPDATE webhook_deliveries
+    SET event = ${event},
+        repo_full_name = ${repoFullName},
+        payload = ${payloadJson},
+        reason = 'reclaimed_stale_claim',
+        received_at = NOW()
+    WHERE source = ${source}
+      AND delivery_id = ${deliveryId}
+      AND status = 'received'
+      AND processed_at IS NULL
+      AND received_at < NOW() - make_interval(mins => ${CLAIM_TIMEOUT_MINUTES}::int)
+    RETURNING id
+  `
+  return (reclaimed[0]?.id as number | undefined) ?? null
+}
+
+/** Settle a claimed delivery. A "failed" delivery releases its id so the provider can redeliver it. */
+export async function completeWebhookDelivery(
+  id: number,
+  status: Extract<WebhookDeliveryStatus, "processed" | "unmatched" | "failed">,
+  reason: string | null = null,
+) {
+  await sql/*sql*/`
+    UPDATE webhook_deliveries
+    SET status = ${status}, reason = ${reason}, processed_at = NOW()
+    WHERE id = ${id}
+  `
+}
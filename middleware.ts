@@ -1,8 +1,25 @@
 // middleware.ts
 import { type NextRequest, NextResponse } from "next/server"
+import { SESSION_COOKIE, verifySession } from "@/lib/session"
 
-export function middleware(request: NextRequest) {
-  const res = NextResponse.next()
+/**
+ * /admin pages need a signed-in admin. The write APIs the admin pages call check the role again
+ * against the users table (lib/auth.ts requireRole).
+ */
+async function guardAdmin(request: NextRequest): Promise<NextResponse | null> {
+  if (!request.nextUrl.pathname.startsWith("/admin")) return null
+
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE)?.value)
+  if (session?.role === "admin") return null
+
+  const login = new URL("/login", request.url)
+  login.searchParams.set("next", request.nextUrl.pathname + request.nextUrl.search)
+  if (session) login.searchParams.set("error", "forbidden")
+  return NextResponse.redirect(login)
+}
+
+export async function middleware(request: NextRequest) {
+  const res = (await guardAdmin(request)) ?? NextResponse.next()
   const isDev = process.env.NODE_ENV !== "production"
 
   // Security headers you already had
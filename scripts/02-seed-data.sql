@@ -8,14 +8,14 @@ INSERT INTO projects (name, description, status, github_repo, discord_channel, f
 -- Insert sample milestones
 INSERT INTO milestones (project_id, title, description, due_date, status) VALUES
 (1, 'MVP Development', 'Complete basic dashboard with core analytics features', '2024-03-15', 'completed'),
-(1, 'Advanced Charting', 'Implement advanced charting and visualization components', '2024-04-30', 'in_progress'),
+(1, 'Advanced Charting', 'Implement advanced charting and visualization components', '2024-04-30', 'in-progress'),
 (1, 'Portfolio Integration', 'Add portfolio tracking and management features', '2024-06-01', 'pending'),
 (2, 'Protocol Design', 'Complete technical specification and architecture design', '2024-03-01', 'completed'),
-(2, 'Smart Contract Development', 'Develop and test core bridge smart contracts', '2024-05-15', 'in_progress'),
+(2, 'Smart Contract Development', 'Develop and test core bridge smart contracts', '2024-05-15', 'in-progress'),
 (2, 'Security Audit', 'Complete third-party security audit and fixes', '2024-07-01', 'pending'),
 (3, 'Platform Launch', 'Deploy marketplace to mainnet', '2023-12-15', 'completed'),
 (3, 'Post-Launch Support', 'Bug fixes and performance optimizations', '2024-01-01', 'completed'),
-(4, 'Token Contract', 'Deploy governance token smart contract', '2024-04-15', 'in_progress'),
+(4, 'Token Contract', 'Deploy governance token smart contract', '2024-04-15', 'in-progress'),
 (4, 'Voting Interface', 'Build user interface for proposal voting', '2024-06-01', 'pending');
 
 -- Insert sample activity logs
@@ -0,0 +1,15 @@
+-- Webhook deliveries that could not be attached to a project (or were otherwise not processed)
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id SERIAL PRIMARY KEY,
+    source VARCHAR(50) NOT NULL, -- 'github', 'discord'
+    event VARCHAR(100),
+    repo_full_name VARCHAR(255),
+    status VARCHAR(50) NOT NULL, -- 'unmatched'
+    reason TEXT,
+    payload JSONB,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_source_status ON webhook_deliveries(source, status);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_repo ON webhook_deliveries(repo_full_name);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_received_at ON webhook_deliveries(received_at DESC);
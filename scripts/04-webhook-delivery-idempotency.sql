@@ -0,0 +1,11 @@
+-- Idempotency for webhook redeliveries, keyed on the provider's delivery id (X-GitHub-Delivery)
+ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS delivery_id VARCHAR(100);
+ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS processed_at TIMESTAMP WITH TIME ZONE;
+
+-- status: 'received' | 'processed' | 'unmatched' | 'failed' | 'rejected' | 'duplicate'
+-- Only deliveries we accepted claim their id; rejected/duplicate/failed rows are just a log
+CREATE UNIQUE INDEX IF NOT EXISTS uq_webhook_deliveries_delivery
+    ON webhook_deliveries(source, delivery_id)
+    WHERE status IN ('received', 'processed', 'unmatched');
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_delivery_id ON webhook_deliveries(delivery_id);
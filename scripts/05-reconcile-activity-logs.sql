@@ -0,0 +1,41 @@
+-- Reconcile activity_logs with the columns every writer now uses:
+--   (project_id, activity_type, source, title, description, url, author, timestamp, metadata)
+-- Older deployments were written to by webhook code using (type, content); fold those into the canonical columns.
+
+ALTER TABLE activity_logs ADD COLUMN IF NOT EXISTS activity_type VARCHAR(100);
+ALTER TABLE activity_logs ADD COLUMN IF NOT EXISTS title VARCHAR(255);
+ALTER TABLE activity_logs ADD COLUMN IF NOT EXISTS description TEXT;
+ALTER TABLE activity_logs ADD COLUMN IF NOT EXISTS author VARCHAR(255);
+ALTER TABLE activity_logs ADD COLUMN IF NOT EXISTS metadata JSONB;
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'activity_logs' AND column_name = 'type'
+    ) THEN
+        UPDATE activity_logs SET activity_type = COALESCE(activity_type, type);
+        ALTER TABLE activity_logs DROP COLUMN type;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'activity_logs' AND column_name = 'content'
+    ) THEN
+        UPDATE activity_logs
+        SET title = COALESCE(title, LEFT(split_part(content, E'\n', 1), 255)),
+            description = COALESCE(description, content);
+        ALTER TABLE activity_logs DROP COLUMN content;
+    END IF;
+END $$;
+
+-- Sources are lower-case ('github' | 'discord' | 'manual'); the risk scan used to write 'GITHUB'
+UPDATE activity_logs SET source = LOWER(source) WHERE source <> LOWER(source);
+
+UPDATE activity_logs SET activity_type = 'unknown' WHERE activity_type IS NULL;
+ALTER TABLE activity_logs ALTER COLUMN activity_type SET NOT NULL;
+
+UPDATE activity_logs SET metadata = '{}'::jsonb WHERE metadata IS NULL;
+ALTER TABLE activity_logs ALTER COLUMN metadata SET DEFAULT '{}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_activity_logs_project_type_url ON activity_logs(project_id, activity_type, url);
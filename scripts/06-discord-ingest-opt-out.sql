@@ -0,0 +1,4 @@
+-- Per-project opt-out from recording Discord channel messages as project activity
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS discord_ingest_opt_out BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_projects_discord_channel ON projects(discord_channel) WHERE discord_channel IS NOT NULL;
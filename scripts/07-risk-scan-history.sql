@@ -0,0 +1,31 @@
+-- One row per risk-scan run
+CREATE TABLE IF NOT EXISTS risk_scan_runs (
+    id SERIAL PRIMARY KEY,
+    trigger VARCHAR(50) NOT NULL, -- 'cron', 'manual'
+    status VARCHAR(50) NOT NULL DEFAULT 'running', -- 'running', 'completed', 'failed'
+    since TIMESTAMP WITH TIME ZONE NOT NULL, -- start of the activity window that was checked
+    project_count INTEGER NOT NULL DEFAULT 0,
+    at_risk_count INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    finished_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Per-project outcome of a run
+CREATE TABLE IF NOT EXISTS risk_scan_results (
+    id SERIAL PRIMARY KEY,
+    run_id INTEGER NOT NULL REFERENCES risk_scan_runs(id) ON DELETE CASCADE,
+    project_id INTEGER REFERENCES projects(id) ON DELETE CASCADE,
+    final VARCHAR(50) NOT NULL, -- 'active', 'at_risk', 'too_new'
+    age_days INTEGER,
+    repo VARCHAR(255),
+    repo_check VARCHAR(50) NOT NULL, -- 'none', 'checked', 'invalid', 'error'
+    github JSONB, -- { commitActivity, pullActivity, reason }
+    discord JSONB, -- { hasActivity, countKnown }
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_risk_scan_runs_started_at ON risk_scan_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_risk_scan_results_run_id ON risk_scan_results(run_id);
+CREATE INDEX IF NOT EXISTS idx_risk_scan_results_project_created ON risk_scan_results(project_id, created_at DESC);
@@ -0,0 +1,5 @@
+-- 0–100 health score per scanned project, with the factors that produced it
+ALTER TABLE risk_scan_results ADD COLUMN IF NOT EXISTS score INTEGER;
+ALTER TABLE risk_scan_results ADD COLUMN IF NOT EXISTS factors JSONB; -- [{ key, label, weight, points, detail }]
+
+CREATE INDEX IF NOT EXISTS idx_risk_scan_results_score ON risk_scan_results(score);
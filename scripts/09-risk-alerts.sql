@@ -0,0 +1,28 @@
+-- One open alert per at-risk project; tracks how far up the escalation ladder it has gone
+CREATE TABLE IF NOT EXISTS risk_alerts (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    level INTEGER NOT NULL DEFAULT 0, -- last escalation level notified (0 = none yet)
+    opened_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- first scan that found the project at risk
+    last_notified_at TIMESTAMP WITH TIME ZONE,
+    resolved_at TIMESTAMP WITH TIME ZONE -- set when a scan finds the project active again
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_risk_alerts_open ON risk_alerts(project_id) WHERE resolved_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_risk_alerts_project ON risk_alerts(project_id, opened_at DESC);
+
+-- Every Discord message sent for an alert, including failed attempts
+CREATE TABLE IF NOT EXISTS risk_notifications (
+    id SERIAL PRIMARY KEY,
+    alert_id INTEGER NOT NULL REFERENCES risk_alerts(id) ON DELETE CASCADE,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    run_id INTEGER REFERENCES risk_scan_runs(id) ON DELETE SET NULL,
+    level INTEGER NOT NULL,
+    target VARCHAR(50) NOT NULL, -- 'assignee_dm', 'project_channel', 'admin_channel'
+    recipient VARCHAR(255), -- Discord user or channel id
+    status VARCHAR(50) NOT NULL, -- 'sent', 'failed', 'skipped'
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_risk_notifications_alert ON risk_notifications(alert_id);
@@ -0,0 +1,8 @@
+-- Last 200 response per GitHub API URL, replayed when a conditional request returns 304 Not Modified
+CREATE TABLE IF NOT EXISTS github_etags (
+    url TEXT PRIMARY KEY,
+    etag TEXT NOT NULL,
+    body JSONB NOT NULL,
+    link TEXT, -- Link header of the cached page, for pagination
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
@@ -0,0 +1,19 @@
+-- Work queue for a risk-scan run; lets a run that timed out resume with the projects it has not finished
+CREATE TABLE IF NOT EXISTS risk_scan_queue (
+    run_id INTEGER NOT NULL REFERENCES risk_scan_runs(id) ON DELETE CASCADE,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    status VARCHAR(50) NOT NULL DEFAULT 'pending', -- 'pending', 'processing', 'done', 'failed'
+    attempts INTEGER NOT NULL DEFAULT 0,
+    locked_at TIMESTAMP WITH TIME ZONE, -- when a worker claimed it; stale claims are picked up again
+    error TEXT,
+    PRIMARY KEY (run_id, project_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_risk_scan_queue_open ON risk_scan_queue(run_id, status) WHERE status IN ('pending', 'processing');
+
+-- A retried project replaces its result instead of adding a second one
+DELETE FROM risk_scan_results a
+USING risk_scan_results b
+WHERE a.run_id = b.run_id AND a.project_id = b.project_id AND a.id < b.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_risk_scan_results_run_project ON risk_scan_results(run_id, project_id);
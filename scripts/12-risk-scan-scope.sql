@@ -0,0 +1,2 @@
+-- Single-project rescans (POST /api/cron/risk-scan?project_id=…) record the project they covered
+ALTER TABLE risk_scan_runs ADD COLUMN IF NOT EXISTS project_id INTEGER REFERENCES projects(id) ON DELETE SET NULL;
@@ -0,0 +1,20 @@
+-- GitHub history import per project (commits, pull requests and releases from start_date onward)
+CREATE TABLE IF NOT EXISTS github_backfills (
+    project_id INTEGER PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+    repo VARCHAR(255) NOT NULL, -- normalized "owner/repo" the import covers
+    status VARCHAR(50) NOT NULL DEFAULT 'pending', -- 'pending', 'running', 'completed', 'failed'
+    imported_count INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    last_run_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_github_backfills_status ON github_backfills(status);
+
+-- Queue every project that already has a repo
+INSERT INTO github_backfills (project_id, repo)
+SELECT id, regexp_replace(regexp_replace(trim(github_repo), '^https?://github\.com/', '', 'i'), '(\.git|/)$', '')
+FROM projects
+WHERE github_repo IS NOT NULL AND trim(github_repo) <> ''
+ON CONFLICT (project_id) DO NOTHING;
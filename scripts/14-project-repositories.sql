@@ -0,0 +1,26 @@
+-- Projects can link several GitHub repos (frontend, contracts, docs, ...); projects.github_repo keeps the first one
+CREATE TABLE IF NOT EXISTS project_repositories (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    repo VARCHAR(255) NOT NULL, -- normalized "owner/repo"
+    label VARCHAR(100), -- 'frontend', 'contracts', 'docs', ...
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_project_repositories_project_repo ON project_repositories(project_id, lower(repo));
+CREATE INDEX IF NOT EXISTS idx_project_repositories_repo ON project_repositories(lower(repo));
+
+INSERT INTO project_repositories (project_id, repo)
+SELECT id, repo
+FROM (
+    SELECT id, regexp_replace(regexp_replace(trim(github_repo), '^https?://github\.com/', '', 'i'), '(\.git|/)$', '') AS repo
+    FROM projects
+    WHERE github_repo IS NOT NULL AND trim(github_repo) <> ''
+) p
+WHERE repo ~ '^[^/\s]+/[^/\s]+$'
+ON CONFLICT DO NOTHING;
+
+-- History imports are tracked per linked repo
+ALTER TABLE github_backfills DROP CONSTRAINT IF EXISTS github_backfills_pkey;
+ALTER TABLE github_backfills ADD PRIMARY KEY (project_id, repo);
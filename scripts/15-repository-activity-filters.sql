@@ -0,0 +1,5 @@
+-- Which activity in a linked repo counts for its project.
+-- branches: names or '*' patterns such as 'main', 'release/*' (empty = every branch; the risk scan then reads the default branch)
+-- excluded_authors: logins or patterns ignored on top of the built-in dependency bots (dependabot, renovate, ...)
+ALTER TABLE project_repositories ADD COLUMN IF NOT EXISTS branches TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE project_repositories ADD COLUMN IF NOT EXISTS excluded_authors TEXT[] NOT NULL DEFAULT '{}';
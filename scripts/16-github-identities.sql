@@ -0,0 +1,14 @@
+-- GitHub login -> Discord identity, so contributors seen in GitHub activity can be matched to grantees.
+-- Filled by the bot's /link-github command; logins are stored lowercased (GitHub logins are case-insensitive).
+CREATE TABLE IF NOT EXISTS github_identities (
+    github_login VARCHAR(255) PRIMARY KEY,
+    discord_id VARCHAR(50) NOT NULL,
+    discord_username VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_github_identities_discord_id ON github_identities(discord_id);
+
+-- Contributor rollups group GitHub activity by author
+CREATE INDEX IF NOT EXISTS idx_activity_logs_project_author ON activity_logs(project_id, lower(author)) WHERE source = 'github';
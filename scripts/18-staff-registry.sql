@@ -0,0 +1,24 @@
+-- Admins and reviewers allowed to act on any project from Discord (progress updates, milestone completion).
+-- Members of DISCORD_ADMIN_ROLE_ID / DISCORD_REVIEWER_ROLE_ID in the guild count too; a row here takes precedence.
+CREATE TABLE IF NOT EXISTS staff_members (
+    discord_id VARCHAR(50) PRIMARY KEY,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('admin', 'reviewer')),
+    note VARCHAR(255),
+    added_by VARCHAR(50), -- discord id of the admin who added the row
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Every allow/deny decision on a bot-driven endpoint
+CREATE TABLE IF NOT EXISTS permission_audit_log (
+    id SERIAL PRIMARY KEY,
+    actor_discord_id VARCHAR(50),
+    action VARCHAR(50) NOT NULL, -- 'progress:post', 'activity:write', 'milestone:complete'
+    project_id INTEGER REFERENCES projects(id) ON DELETE SET NULL,
+    allowed BOOLEAN NOT NULL,
+    granted_as VARCHAR(20), -- 'assignee', 'admin', 'reviewer'
+    reason VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_permission_audit_log_created ON permission_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_permission_audit_log_actor ON permission_audit_log(actor_discord_id, created_at DESC);
@@ -0,0 +1,16 @@
+-- Named, scoped tokens for automation (Discord bot, schedulers, external integrations).
+-- Only the SHA-256 of a token is stored; the plaintext is shown once when it is created.
+CREATE TABLE IF NOT EXISTS api_tokens (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    token_hash CHAR(64) NOT NULL UNIQUE,
+    token_prefix VARCHAR(16) NOT NULL, -- first characters of the token, to recognise it in the admin UI
+    scopes TEXT[] NOT NULL DEFAULT '{}', -- 'activity:write', 'milestones:complete', 'scan:run'
+    expires_at TIMESTAMP WITH TIME ZONE,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_by VARCHAR(50), -- discord id of the admin who issued it
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_tokens_created ON api_tokens(created_at DESC);
@@ -0,0 +1,20 @@
+-- Who changed what: one row per mutation made through the API, with a field-level before/after diff.
+-- project_id has no foreign key so a project's trail outlives the project.
+CREATE TABLE IF NOT EXISTS audit_events (
+    id BIGSERIAL PRIMARY KEY,
+    actor_type VARCHAR(20) NOT NULL, -- 'user' (admin session), 'discord' (bot on behalf of a member), 'api_token', 'system'
+    actor_id VARCHAR(100), -- users.discord_id, the member's discord id, or api_tokens.id
+    actor_name VARCHAR(255),
+    action VARCHAR(50) NOT NULL, -- '<entity>.<verb>', e.g. 'project.update', 'milestone.complete'
+    entity_type VARCHAR(50) NOT NULL,
+    entity_id VARCHAR(100),
+    project_id INTEGER,
+    changes JSONB NOT NULL DEFAULT '{}', -- { field: { before, after } }
+    metadata JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_created ON audit_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_entity ON audit_events(entity_type, entity_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_project ON audit_events(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor ON audit_events(actor_id, created_at DESC);
@@ -0,0 +1,6 @@
+-- Deleting a project moves it to the trash instead of removing the row (and, via ON DELETE CASCADE, its
+-- milestones and activity). Trashed projects are purged after PROJECT_TRASH_RETENTION_DAYS by /api/cron/trash-purge.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS deleted_by VARCHAR(50); -- discord id of the admin who deleted it
+
+CREATE INDEX IF NOT EXISTS idx_projects_deleted_at ON projects(deleted_at) WHERE deleted_at IS NOT NULL;
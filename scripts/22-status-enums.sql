@@ -0,0 +1,42 @@
+-- Project and milestone statuses become fixed sets (PROJECT_STATUSES / MILESTONE_STATUSES in lib/constants.ts).
+-- Existing rows are normalized first; which changes between statuses are allowed is checked by the API
+-- (lib/status-transitions.ts).
+
+-- Spelling: "Not Started", "not_started", " On Hold " -> "not-started", "on-hold"
+UPDATE projects
+SET status = regexp_replace(lower(trim(status)), '[_\s]+', '-', 'g')
+WHERE status IS NOT NULL AND status <> regexp_replace(lower(trim(status)), '[_\s]+', '-', 'g');
+
+UPDATE milestones
+SET status = regexp_replace(lower(trim(status)), '[_\s]+', '-', 'g')
+WHERE status IS NOT NULL AND status <> regexp_replace(lower(trim(status)), '[_\s]+', '-', 'g');
+
+-- Projects: "planning" and "review" (offered by old forms) and anything unknown were running projects
+UPDATE projects
+SET status = CASE
+        WHEN status IN ('complete', 'done') THEN 'completed'
+        WHEN status IN ('paused', 'hold') THEN 'on-hold'
+        ELSE 'active'
+    END
+WHERE status IS NULL OR status NOT IN ('active', 'on-hold', 'completed');
+
+-- Milestones: the old form's "active" / "at risk" meant in progress; "planning" (the old API default) and
+-- anything unknown had not started
+UPDATE milestones
+SET status = CASE
+        WHEN status IN ('complete', 'done') THEN 'completed'
+        WHEN status IN ('active', 'at-risk', 'started') THEN 'in-progress'
+        ELSE 'pending'
+    END
+WHERE status IS NULL OR status NOT IN ('pending', 'not-started', 'in-progress', 'overdue', 'completed');
+
+ALTER TABLE projects ALTER COLUMN status SET DEFAULT 'active';
+ALTER TABLE projects ALTER COLUMN status SET NOT NULL;
+ALTER TABLE projects DROP CONSTRAINT IF EXISTS projects_status_check;
+ALTER TABLE projects ADD CONSTRAINT projects_status_check CHECK (status IN ('active', 'on-hold', 'completed'));
+
+ALTER TABLE milestones ALTER COLUMN status SET DEFAULT 'pending';
+ALTER TABLE milestones ALTER COLUMN status SET NOT NULL;
+ALTER TABLE milestones DROP CONSTRAINT IF EXISTS milestones_status_check;
+ALTER TABLE milestones ADD CONSTRAINT milestones_status_check
+    CHECK (status IN ('pending', 'not-started', 'in-progress', 'overdue', 'completed'));
@@ -0,0 +1,6 @@
+-- Milestones go to the trash too: DELETE /api/milestones/:id sets deleted_at, /admin/trash restores or purges, and
+-- /api/cron/trash-purge removes them after PROJECT_TRASH_RETENTION_DAYS (see 21-project-soft-delete.sql).
+ALTER TABLE milestones ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE milestones ADD COLUMN IF NOT EXISTS deleted_by VARCHAR(50); -- discord id of the admin who deleted it
+
+CREATE INDEX IF NOT EXISTS idx_milestones_deleted_at ON milestones(deleted_at) WHERE deleted_at IS NOT NULL;
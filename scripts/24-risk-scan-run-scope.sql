@@ -0,0 +1,18 @@
+-- A run's scope is recorded explicitly: project_id is set to NULL when the project is purged, which made its
+-- single-project rescans look like full runs (resumed by the next scan, reported as the latest full scan).
+ALTER TABLE risk_scan_runs ADD COLUMN IF NOT EXISTS scope VARCHAR(20) NOT NULL DEFAULT 'full';
+
+UPDATE risk_scan_runs SET scope = 'project' WHERE project_id IS NOT NULL;
+
+-- Rescans of already-purged projects: manual, at most one result, and never queued (full runs queue every project)
+UPDATE risk_scan_runs run
+SET scope = 'project'
+WHERE run.project_id IS NULL
+  AND run.trigger = 'manual'
+  AND run.project_count <= 1
+  AND NOT EXISTS (SELECT 1 FROM risk_scan_queue q WHERE q.run_id = run.id);
+
+ALTER TABLE risk_scan_runs DROP CONSTRAINT IF EXISTS risk_scan_runs_scope_check;
+ALTER TABLE risk_scan_runs ADD CONSTRAINT risk_scan_runs_scope_check CHECK (scope IN ('full', 'project'));
+
+CREATE INDEX IF NOT EXISTS idx_risk_scan_runs_full ON risk_scan_runs(started_at DESC) WHERE scope = 'full';
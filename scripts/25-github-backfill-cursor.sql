@@ -0,0 +1,9 @@
+-- Where an import resumes when a source has more history than one pass reads (MAX_PAGES pages per source in
+-- lib/github-backfill.ts); null once everything has been read. See GitHubBackfillCursor in lib/types.ts.
+ALTER TABLE github_backfills ADD COLUMN IF NOT EXISTS cursor JSONB;
+
+-- Imports that read 2,000 items or more may have been cut off at the page limit and marked completed;
+-- run them again (items already recorded are skipped)
+UPDATE github_backfills
+SET status = 'pending', completed_at = NULL
+WHERE status = 'completed' AND imported_count >= 2000;
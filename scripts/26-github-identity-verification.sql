@@ -0,0 +1,3 @@
+-- /link-github claims are only trusted once proven: the member puts a challenge code in the GitHub profile bio
+-- (lib/contributors.ts). Links made before this are self-claimed until their owner runs /link-github again.
+ALTER TABLE github_identities ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,23 @@
+-- GitHub repo names are case-insensitive: one import per (project, lower(repo)), like project_repositories.
+-- Re-linking "Org/Repo" as "org/repo" used to queue a second import of the same history.
+
+-- Keep the import that got furthest: completed first, then the one that recorded the most
+DELETE FROM github_backfills b
+USING (
+    SELECT project_id, repo,
+           ROW_NUMBER() OVER (
+               PARTITION BY project_id, lower(repo)
+               ORDER BY status = 'completed' DESC, imported_count DESC, created_at ASC
+           ) AS rank
+    FROM github_backfills
+) ranked
+WHERE b.project_id = ranked.project_id AND b.repo = ranked.repo AND ranked.rank > 1;
+
+-- The surviving import takes the linked repo's current spelling
+UPDATE github_backfills b
+SET repo = r.repo
+FROM project_repositories r
+WHERE r.project_id = b.project_id AND lower(r.repo) = lower(b.repo) AND r.repo <> b.repo;
+
+ALTER TABLE github_backfills DROP CONSTRAINT IF EXISTS github_backfills_pkey;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_github_backfills_project_repo ON github_backfills(project_id, lower(repo));
@@ -1,13 +1,17 @@
 import { config } from "@/configs/config"
 import fetch from "node-fetch"
 
+if (!config.scanApiToken) {
+  console.error("[cron-daily] Missing SCAN_API_TOKEN: issue a token with the scan:run scope at /admin/tokens")
+  process.exit(1)
+}
 
 async function run() {
   const res = await fetch(`${config.backendUrl}/api/cron/risk-scan`, {
     method: "POST",
     headers: {
       "Content-Type":"application/json",
-      Authorization: `Bearer ${config.serviceBotToken}`,
+      Authorization: `Bearer ${config.scanApiToken}`,
     },
   })
   const text = await res.text()
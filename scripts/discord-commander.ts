@@ -1,5 +1,5 @@
 import fetch from "node-fetch";
-import { ActionRowBuilder, StringSelectMenuBuilder, StringSelectMenuOptionBuilder, ModalBuilder, TextInputBuilder, TextInputStyle, SlashCommandBuilder, Client, GatewayIntentBits, REST, Routes, Interaction, } from "discord.js";
+import { ActionRowBuilder, StringSelectMenuBuilder, StringSelectMenuOptionBuilder, ModalBuilder, TextInputBuilder, TextInputStyle, SlashCommandBuilder, Client, GatewayIntentBits, REST, Routes, Interaction, Message, } from "discord.js";
 import { config } from "@/configs/config";
 
 /**
@@ -16,7 +16,8 @@ if (!config.serviceBotToken) {
 }
 
 const client = new Client({
-    intents: [GatewayIntentBits.Guilds, GatewayIntentBits.GuildMessages],
+    // MessageContent is privileged: enable it for the bot in the Discord developer portal
+    intents: [GatewayIntentBits.Guilds, GatewayIntentBits.GuildMessages, GatewayIntentBits.MessageContent],
 });
 
 /**
@@ -29,6 +30,13 @@ const commands = [
     new SlashCommandBuilder()
         .setName("milestone-status")
         .setDescription("Update the status of a milestone"),
+    new SlashCommandBuilder()
+        .setName("risk-status")
+        .setDescription("Show the latest risk scan result for your projects"),
+    new SlashCommandBuilder()
+        .setName("link-github")
+        .setDescription("Link your GitHub account so your commits are credited to you")
+        .addStringOption((o) => o.setName("username").setDescription("Your GitHub username").setRequired(true)),
 ].map((c) => c.toJSON());
 
 const rest = new REST({ version: "10" }).setToken(config.discordBotToken);
@@ -54,6 +62,36 @@ async function getAssignedProjects(discordId: string): Promise<AssignedProject[]
     return (await res.json()) as AssignedProject[];
 }
 
+type ProjectRiskStatus = {
+    id: number;
+    name: string;
+    risk_status: "active" | "at_risk" | "too_new" | null;
+    risk_note: string | null;
+    risk_score: number | null;
+    scanned_at: string | null;
+    window_days: number;
+};
+
+async function getRiskStatus(discordId: string): Promise<ProjectRiskStatus[]> {
+    const url = `${config.backendUrl}/api/discord/risk-status?discord_id=${encodeURIComponent(discordId)}`;
+    const res = await fetch(url, { headers: { "Content-Type": "application/json" } });
+    if (!res.ok) throw new Error(`Failed to load risk status (${res.status})`);
+    return (await res.json()) as ProjectRiskStatus[];
+}
+
+function formatRiskStatus(rows: ProjectRiskStatus[]) {
+    const icon = { active: "🟢", at_risk: "🔴", too_new: "⚪" } as const;
+    return [
+        "**Risk status for your projects**",
+        ...rows.map((r) => {
+            if (!r.risk_status) return `❔ **${r.name}** — not scanned yet`;
+            const score = r.risk_score == null ? "" : ` · health ${r.risk_score}/100`;
+            const when = r.scanned_at ? ` (scanned <t:${Math.floor(new Date(r.scanned_at).getTime() / 1000)}:R>)` : "";
+            return `${icon[r.risk_status]} **${r.name}** — \`${r.risk_status}\`${score}: ${r.risk_note || "no details"}${when}`;
+        }),
+    ].join("\n");
+}
+
 async function postJson(url: string, body: unknown, headers: Record<string, string> = {}) {
     const res = await fetch(url, {
         method: "POST",
@@ -61,15 +99,13 @@ async function postJson(url: string, body: unknown, headers: Record<string, stri
         body: JSON.stringify(body),
     });
     if (!res.ok) {
+        // The body can only be read once: read it as text, then use its JSON error message when there is one
+        const t = await res.text().catch(() => "");
+        let j: any = null;
         try {
-            const j = (await res.json()) as any;
-            if (j?.error) throw new Error(j.error);
-            if (j?.message) throw new Error(j.message);
-            throw new Error(`${res.status} ${res.statusText}`);
-        } catch {
-            const t = await res.text().catch(() => "");
-            throw new Error(t || `${res.status} ${res.statusText}`);
-        }
+            j = JSON.parse(t);
+        } catch { }
+        throw new Error(j?.error || j?.message || t || `${res.status} ${res.statusText}`);
     }
     try {
         return await res.json();
@@ -85,15 +121,13 @@ async function patchJson(url: string, body: unknown, headers: Record<string, str
         body: JSON.stringify(body),
     });
     if (!res.ok) {
+        // The body can only be read once: read it as text, then use its JSON error message when there is one
+        const t = await res.text().catch(() => "");
+        let j: any = null;
         try {
-            const j = (await res.json()) as any;
-            if (j?.error) throw new Error(j.error);
-            if (j?.message) throw new Error(j.message);
-            throw new Error(`${res.status} ${res.statusText}`);
-        } catch {
-            const t = await res.text().catch(() => "");
-            throw new Error(t || `${res.status} ${res.statusText}`);
-        }
+            j = JSON.parse(t);
+        } catch { }
+        throw new Error(j?.error || j?.message || t || `${res.status} ${res.statusText}`);
     }
     try {
         return await res.json();
@@ -169,11 +203,81 @@ function buildProgressModal(projectId: string, projectName: string) {
     return modal;
 }
 
+/**
+ * Channel message listener
+ * Messages in channels linked via projects.discord_channel (and their threads) are
+ * forwarded to /api/webhooks/discord, which routes them to the project(s).
+ */
+const LINKED_CHANNELS_REFRESH_MS = 5 * 60 * 1000;
+const CHANNEL_RATE_LIMIT = { max: 10, windowMs: 60 * 1000 }; // recorded messages per channel per window
+
+let linkedChannels = new Set<string>();
+let linkedChannelsLoadedAt = 0;
+const channelHits = new Map<string, number[]>();
+
+async function refreshLinkedChannels(force = false) {
+    if (!force && Date.now() - linkedChannelsLoadedAt < LINKED_CHANNELS_REFRESH_MS) return;
+    const res = await fetch(`${config.backendUrl}/api/discord/linked-channels`, {
+        headers: { Authorization: `Bearer ${config.serviceBotToken}` },
+    });
+    if (!res.ok) throw new Error(`Failed to load linked channels (${res.status})`);
+    const rows = (await res.json()) as Array<{ projectId: number; channelId: string }>;
+    linkedChannels = new Set(rows.map((r) => r.channelId));
+    linkedChannelsLoadedAt = Date.now();
+}
+
+/** Sliding-window limiter; returns false once a channel is over its budget */
+function allowChannelMessage(channelId: string) {
+    const now = Date.now();
+    const hits = (channelHits.get(channelId) || []).filter((t) => now - t < CHANNEL_RATE_LIMIT.windowMs);
+    if (hits.length >= CHANNEL_RATE_LIMIT.max) {
+        channelHits.set(channelId, hits);
+        return false;
+    }
+    hits.push(now);
+    channelHits.set(channelId, hits);
+    return true;
+}
+
+async function recordChannelMessage(message: Message) {
+    if (message.author.bot || message.system || message.webhookId || !message.content) return;
+
+    const parentId = message.channel.isThread() ? message.channel.parentId : null;
+    await refreshLinkedChannels().catch((e) => console.error("[listener] refresh failed:", e?.message || e));
+
+    const linkedId = linkedChannels.has(message.channelId) ? message.channelId : parentId;
+    if (!linkedId || !linkedChannels.has(linkedId)) return;
+    if (!allowChannelMessage(linkedId)) return;
+
+    await postJson(`${config.backendUrl}/api/webhooks/discord`, {
+        id: message.id,
+        channel_id: message.channelId,
+        parent_channel_id: parentId,
+        guild_id: message.guildId,
+        type: message.type,
+        content: message.content,
+        author: {
+            id: message.author.id,
+            username: message.author.username,
+            bot: message.author.bot,
+            system: message.author.system,
+        },
+        timestamp: message.createdAt.toISOString(),
+    }, { Authorization: `Bearer ${config.serviceBotToken}` });
+}
+
 /**
  * Bot lifecycle
  */
 client.once("ready", () => {
     console.log(`🤖 Logged in as ${client.user?.tag}`);
+    refreshLinkedChannels(true)
+        .then(() => console.log(`👂 Listening to ${linkedChannels.size} linked channel(s).`))
+        .catch((e) => console.error("[listener] initial load failed:", e?.message || e));
+});
+
+client.on("messageCreate", (message: Message) => {
+    recordChannelMessage(message).catch((e) => console.error("[listener] failed to record message:", e?.message || e));
 });
 
 client.on("interactionCreate", async (interaction: Interaction) => {
@@ -222,7 +326,41 @@ client.on("interactionCreate", async (interaction: Interaction) => {
             return;
         }
 
-        // Project picked → show modal (progress)
+        // /risk-status
+        if (interaction.isChatInputCommand() && interaction.commandName === "risk-status") {
+            const rows = await getRiskStatus(interaction.user.id);
+            await interaction.reply({
+                ephemeral: true,
+                content: rows.length ? formatRiskStatus(rows) : "No projects are assigned to you yet.",
+            });
+            return;
+        }
+
+        // /link-github
+        if (interaction.isChatInputCommand() && interaction.commandName === "link-github") {
+            const login = interaction.options.getString("username", true);
+            try {
+                const identity = (await postJson(
+                    `${config.backendUrl}/api/discord/github-identity`,
+                    {
+                        discord_id: interaction.user.id,
+                        discord_username: interaction.user.username,
+                        github_login: login,
+                    },
+                    { Authorization: `Bearer ${config.serviceBotToken}` }
+                )) as { verified?: boolean; challenge?: string } | null;
+                await interaction.reply({
+                    ephemeral: true,
+                    content: identity?.verified
+                        ? `✅ Linked GitHub account **${login}** to you. Its activity now shows under your name on project pages.`
+                        : `🔗 Linked **${login}** to you as unverified. To verify it, add \`${identity?.challenge}\` to the bio at https://github.com/settings/profile and run /link-github again (you can remove it afterwards).`,
+                });
+            } catch (e: any) {
+                await interaction.reply({ ephemeral: true, content: `❌ Could not link **${login}**: ${e?.message || e}` });
+            }
+            return;
+        }
+
         // Project picked → show modal (progress)
         if (interaction.isStringSelectMenu() && interaction.customId === "pick_project_for_progress") {
             const projectId = interaction.values?.[0];
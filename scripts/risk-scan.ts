@@ -1,20 +1,49 @@
 import { config } from '@/configs/config'
 
+const POLL_INTERVAL_MS = 5_000
+const POLL_TIMEOUT_MS = 30 * 60_000
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Usage: tsx scripts/risk-scan.ts [--project <id>] [--dry-run]
+function parseArgs(argv: string[]) {
+    const args = { projectId: null as string | null, dryRun: false }
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i]!
+        if (arg === '--dry-run') args.dryRun = true
+        else if (arg === '--project' || arg === '--project-id') args.projectId = argv[++i] ?? null
+        else if (arg.startsWith('--project=')) args.projectId = arg.slice('--project='.length)
+        else {
+            console.error(`[risk-scan] Unknown argument: ${arg}`)
+            process.exit(1)
+        }
+    }
+    if (args.projectId !== null && !/^\d+$/.test(args.projectId)) {
+        console.error('[risk-scan] --project expects a numeric project id')
+        process.exit(1)
+    }
+    return args
+}
 
 async function main() {
-    if (!config.serviceBotToken) {
-        console.error('[risk-scan] Missing SERVICE_BOT_TOKEN in .env')
+    if (!config.scanApiToken) {
+        console.error('[risk-scan] Missing SCAN_API_TOKEN in .env: issue a token with the scan:run scope at /admin/tokens')
         process.exit(1)
     }
 
-    const url = `${config.backendUrl}/api/cron/risk-scan`
+    const { projectId, dryRun } = parseArgs(process.argv.slice(2))
+    const params = new URLSearchParams()
+    if (projectId) params.set('project_id', projectId)
+    if (dryRun) params.set('dry_run', 'true')
+    const query = params.toString()
+    const url = `${config.backendUrl}/api/cron/risk-scan${query ? `?${query}` : ''}`
     console.log(`[risk-scan] Hitting: ${url} @ ${new Date().toISOString()}`)
 
     try {
         const res = await fetch(url, {
             method: 'POST',
             headers: {
-                Authorization: `Bearer ${config.serviceBotToken}`,
+                Authorization: `Bearer ${config.scanApiToken}`,
                 'Content-Type': 'application/json',
             },
         })
@@ -24,7 +53,32 @@ async function main() {
         if (text) console.log(`[risk-scan] Body: ${text}`)
 
         if (!res.ok) process.exit(2)
-        process.exit(0)
+
+        // Dry runs and single-project scans answer with their results directly
+        if (projectId || dryRun) process.exit(0)
+
+        // The endpoint works for up to its time budget and answers 202 when the cron has to finish the run;
+        // poll it until the queue is done
+        const { run_id } = JSON.parse(text) as { run_id: number }
+        const started = Date.now()
+        while (Date.now() - started < POLL_TIMEOUT_MS) {
+            await sleep(POLL_INTERVAL_MS)
+            const poll = await fetch(`${config.backendUrl}/api/risk-scans/${run_id}`)
+            if (!poll.ok) {
+                console.error(`[risk-scan] Poll failed: ${poll.status}`)
+                continue
+            }
+            const run = await poll.json()
+            const p = run.progress
+            console.log(`[risk-scan] Run ${run_id}: ${run.status} (${p.done + p.failed}/${p.total}, ${p.failed} failed)`)
+            if (run.status !== 'running') {
+                console.log(`[risk-scan] ${run.at_risk_count} of ${run.project_count} projects at risk`)
+                process.exit(run.status === 'completed' ? 0 : 2)
+            }
+        }
+
+        console.error(`[risk-scan] Run ${run_id} still running after ${POLL_TIMEOUT_MS / 60_000} minutes`)
+        process.exit(2)
     } catch (err) {
         console.error('[risk-scan] Error:', err)
         process.exit(3)
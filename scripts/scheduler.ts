@@ -1,8 +1,8 @@
 import { config } from "@/configs/config";
 import cron from "node-cron";
 
-if (!config.serviceBotToken) {
-    console.error("[scheduler] Missing SERVICE_BOT_TOKEN");
+if (!config.scanApiToken) {
+    console.error("[scheduler] Missing SCAN_API_TOKEN: issue a token with the scan:run scope at /admin/tokens");
     process.exit(1);
 }
 
@@ -12,7 +12,7 @@ async function runRiskScan() {
         console.log(`[scheduler] Risk-scan ➜ POST ${url} @ ${new Date().toISOString()}`);
         const res = await fetch(url, {
             method: "POST",
-            headers: { Authorization: `Bearer ${config.serviceBotToken}` },
+            headers: { Authorization: `Bearer ${config.scanApiToken}` },
         });
         const text = await res.text();
         console.log(`[scheduler] Status: ${res.status}`);